@@ -0,0 +1,175 @@
+import { createRef } from 'react';
+import { render, fireEvent, act } from '@testing-library/react';
+import { Resizable, ResizeHandle, useResizable } from '../resizable';
+
+describe('Resizable', () => {
+  beforeEach(() => {
+    HTMLElement.prototype.setPointerCapture = jest.fn();
+    HTMLElement.prototype.releasePointerCapture = jest.fn();
+
+    // Mock RAF to execute immediately
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 1;
+    });
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const drag = (handle: Element, fromX: number, toX: number) => {
+    fireEvent.pointerDown(handle, { pointerId: 1, pageX: fromX, pageY: 0 });
+    act(() => {
+      handle.dispatchEvent(new PointerEvent('pointermove', { pageX: toX }));
+    });
+    act(() => {
+      handle.dispatchEvent(new PointerEvent('pointerup', { pageX: toX }));
+    });
+  };
+
+  describe('Rendering', () => {
+    test('should size the box and position handles with cursors and hit areas', () => {
+      const { container } = render(
+        <Resizable initialWidth={300} initialHeight={200} minWidth={100} minHeight={100} hitArea={10}>
+          <ResizeHandle direction="right" />
+          <ResizeHandle direction="bottom-left" hitArea={20} />
+        </Resizable>
+      );
+
+      const box = container.firstChild as HTMLElement;
+      expect(box.style.position).toBe('relative');
+      expect(box.style.width).toBe('300px');
+      expect(box.style.height).toBe('200px');
+
+      const right = container.querySelector('[data-direction="right"]') as HTMLElement;
+      expect(right.getAttribute('role')).toBe('separator');
+      expect(right.style.cursor).toBe('ew-resize');
+      expect(right.style.touchAction).toBe('none');
+      expect(right.style.right).toBe('-5px');
+      expect(right.style.width).toBe('10px');
+      expect(right.style.top).toBe('0px');
+      expect(right.style.bottom).toBe('0px');
+
+      const corner = container.querySelector('[data-direction="bottom-left"]') as HTMLElement;
+      expect(corner.style.cursor).toBe('nesw-resize');
+      expect(corner.style.left).toBe('-10px');
+      expect(corner.style.bottom).toBe('-10px');
+      expect(corner.style.height).toBe('20px');
+    });
+
+    test('should forward refs to the box and handles', () => {
+      const boxRef = createRef<HTMLElement>();
+      const handleRef = createRef<HTMLElement>();
+      render(
+        <Resizable ref={boxRef} minWidth={100} minHeight={100}>
+          <ResizeHandle ref={handleRef} direction="bottom" />
+        </Resizable>
+      );
+
+      expect(boxRef.current?.tagName).toBe('DIV');
+      expect(handleRef.current?.dataset.direction).toBe('bottom');
+      expect(handleRef.current?.style.cursor).toBe('ns-resize');
+    });
+
+    test('should resolve logical directions against the box', () => {
+      const { container } = render(
+        <Resizable minWidth={100} minHeight={100} style={{ direction: 'rtl' }}>
+          <ResizeHandle direction="inline-end" />
+        </Resizable>
+      );
+
+      const handle = container.querySelector('[role="separator"]') as HTMLElement;
+      expect(handle.dataset.direction).toBe('left');
+      expect(handle.style.left).toBe('-4px');
+    });
+
+    test('should throw when a handle is rendered outside Resizable', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      expect(() => render(<ResizeHandle direction="right" />)).toThrow('ResizeHandle must be used inside <Resizable>');
+    });
+  });
+
+  describe('Interaction', () => {
+    test('should resize when a handle is dragged', () => {
+      const onDimensionsChange = jest.fn();
+      const { container } = render(
+        <Resizable initialWidth={200} initialHeight={200} minWidth={100} minHeight={100} onDimensionsChange={onDimensionsChange}>
+          <ResizeHandle direction="right" />
+        </Resizable>
+      );
+
+      drag(container.querySelector('[data-direction="right"]') as HTMLElement, 200, 280);
+
+      expect((container.firstChild as HTMLElement).style.width).toBe('280px');
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 280, height: 200 });
+    });
+
+    test('should resize from the keyboard', () => {
+      const { container } = render(
+        <Resizable initialWidth={200} initialHeight={200} minWidth={100} minHeight={100}>
+          <ResizeHandle direction="bottom" />
+        </Resizable>
+      );
+
+      fireEvent.keyDown(container.querySelector('[role="separator"]') as HTMLElement, { key: 'ArrowDown' });
+
+      expect((container.firstChild as HTMLElement).style.height).toBe('210px');
+    });
+  });
+
+  describe('Composition', () => {
+    test('should render onto the child with asChild, merging props', () => {
+      const onKeyDown = jest.fn();
+      const handleRef = createRef<HTMLButtonElement>();
+      const { container } = render(
+        <Resizable asChild initialWidth={200} initialHeight={200} minWidth={100} minHeight={100}>
+          <section className="panel" style={{ background: 'red' }}>
+            <ResizeHandle asChild direction="right" className="handle">
+              <button ref={handleRef} className="grip" onKeyDown={onKeyDown} />
+            </ResizeHandle>
+          </section>
+        </Resizable>
+      );
+
+      const box = container.firstChild as HTMLElement;
+      expect(box.tagName).toBe('SECTION');
+      expect(box.className).toBe('panel');
+      expect(box.style.width).toBe('200px');
+      expect(box.style.background).toBe('red');
+
+      const button = handleRef.current as HTMLButtonElement;
+      expect(button.className).toBe('handle grip');
+      expect(button.style.cursor).toBe('ew-resize');
+
+      fireEvent.keyDown(button, { key: 'ArrowRight' });
+      expect(onKeyDown).toHaveBeenCalled();
+      expect(box.style.width).toBe('210px');
+    });
+
+    test('should pass state to render props and useResizable', () => {
+      const Size = () => {
+        const { currentWidth } = useResizable();
+        return <span data-testid="size">{currentWidth}</span>;
+      };
+      const { container, getByTestId } = render(
+        <Resizable initialWidth={200} initialHeight={200} minWidth={100} minHeight={100}>
+          {({ isResizing }) => (
+            <>
+              <Size />
+              <ResizeHandle direction="right">
+                {({ direction }) => <span data-testid="grip">{`${direction}:${isResizing}`}</span>}
+              </ResizeHandle>
+            </>
+          )}
+        </Resizable>
+      );
+
+      expect(getByTestId('grip').textContent).toBe('right:false');
+
+      drag(container.querySelector('[data-direction="right"]') as HTMLElement, 200, 250);
+      expect(getByTestId('size').textContent).toBe('250');
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { Children, cloneElement, createContext, forwardRef, isValidElement, useCallback, useContext, useState } from "react";
+import type { CSSProperties, ReactElement, ReactNode, Ref } from "react";
+import { resolveLogicalDirection, useDragResize } from "../hooks/use-drag-resize";
+import type { LogicalResizeDirection, ResizeDirection } from "../hooks/use-drag-resize";
+
+/** Options accepted by useDragResize, passed straight through by <Resizable>. */
+type DragResizeOptions = Parameters<typeof useDragResize>[0];
+
+/** Everything useDragResize returns - the render-prop argument of <Resizable>. */
+export type ResizableState = ReturnType<typeof useDragResize>;
+
+/** Render-prop argument of <ResizeHandle>. */
+export type ResizeHandleState = {
+  /** Physical edge the handle resizes (logical directions resolved). */
+  direction: ResizeDirection;
+  isResizing: boolean;
+};
+
+/**
+ * Cursor for each physical handle direction.
+ *
+ * Why the bidirectional cursors (ew-resize rather than e-resize)? The handle can
+ * both grow and shrink the element, so a one-way arrow would be misleading.
+ */
+const HANDLE_CURSORS: Record<ResizeDirection, CSSProperties["cursor"]> = {
+  left: "ew-resize",
+  right: "ew-resize",
+  top: "ns-resize",
+  bottom: "ns-resize",
+  "top-left": "nwse-resize",
+  "bottom-right": "nwse-resize",
+  "top-right": "nesw-resize",
+  "bottom-left": "nesw-resize",
+};
+
+/** Default thickness of a handle's hit area in pixels. */
+const DEFAULT_HIT_AREA = 8;
+
+/**
+ * Absolutely position a handle over its edge or corner.
+ *
+ * The hit area straddles the edge (half inside, half outside) so the handle is as
+ * easy to grab from either side and doesn't cover the element's content. Corners
+ * are stacked above edges so they win where the two overlap.
+ */
+function getHandlePlacement(direction: ResizeDirection, hitArea: number): CSSProperties {
+  const offset = -hitArea / 2;
+  const x = direction.endsWith("left") ? "left" : direction.endsWith("right") ? "right" : null;
+  const y = direction.startsWith("top") ? "top" : direction.startsWith("bottom") ? "bottom" : null;
+  return {
+    position: "absolute",
+    ...(x ? { [x]: offset, width: hitArea } : { left: 0, right: 0 }),
+    ...(y ? { [y]: offset, height: hitArea } : { top: 0, bottom: 0 }),
+    zIndex: x && y ? 2 : 1,
+  };
+}
+
+/**
+ * Combine refs so one element can be handed to several owners.
+ */
+function mergeRefs<T>(...refs: Array<Ref<T> | undefined>) {
+  return (value: T | null) => {
+    refs.forEach((ref) => {
+      if (typeof ref === "function") ref(value);
+      else if (ref) (ref as { current: T | null }).current = value;
+    });
+  };
+}
+
+/**
+ * Render `props` onto the single child element instead of a wrapper (asChild).
+ *
+ * The child's own props win, except that event handlers run both (child first),
+ * styles are merged and classNames are joined - so a `<button onKeyDown>` keeps its
+ * handler and still resizes.
+ */
+function renderAsChild(children: ReactNode, props: Record<string, unknown>, ref: Ref<HTMLElement>) {
+  const child = Children.only(children);
+  if (!isValidElement(child)) return null;
+
+  const childProps = child.props as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...props, ...childProps };
+  Object.keys(props).forEach((key) => {
+    const ours = props[key];
+    const theirs = childProps[key];
+    if (/^on[A-Z]/.test(key) && typeof ours === "function" && typeof theirs === "function") {
+      merged[key] = (...args: unknown[]) => {
+        theirs(...args);
+        ours(...args);
+      };
+    } else if (key === "style") {
+      merged.style = { ...(ours as CSSProperties), ...(theirs as CSSProperties | undefined) };
+    } else if (key === "className" && theirs) {
+      merged.className = [ours, theirs].filter(Boolean).join(" ");
+    }
+  });
+
+  const childRef = (child as ReactElement & { ref?: Ref<HTMLElement> }).ref;
+  return cloneElement(child as ReactElement<Record<string, unknown>>, { ...merged, ref: mergeRefs(ref, childRef) });
+}
+
+type ResizableContextValue = {
+  resize: ResizableState;
+  hitArea: number;
+  element: HTMLElement | null;
+};
+
+const ResizableContext = createContext<ResizableContextValue | null>(null);
+
+/**
+ * Read the nearest <Resizable>'s state, e.g. to build a custom handle or toolbar.
+ * Throws when used outside a <Resizable>.
+ */
+export function useResizable(): ResizableState {
+  return useResizableContext("useResizable").resize;
+}
+
+function useResizableContext(caller: string): ResizableContextValue {
+  const context = useContext(ResizableContext);
+  if (!context) throw new Error(`${caller} must be used inside <Resizable>`);
+  return context;
+}
+
+export type ResizableProps = DragResizeOptions & {
+  /** Render onto the single child element instead of a wrapping div. */
+  asChild?: boolean;
+
+  /** Default hit-area thickness in pixels for the handles inside. Default: 8 */
+  hitArea?: number;
+
+  className?: string;
+  style?: CSSProperties;
+
+  /** Content, or a render prop receiving the full useDragResize state. */
+  children?: ReactNode | ((state: ResizableState) => ReactNode);
+};
+
+/**
+ * Headless resizable box built on useDragResize.
+ *
+ * Renders a relatively positioned element sized to the hook's current dimensions and
+ * shares the hook with the <ResizeHandle>s inside it. All useDragResize options are
+ * accepted as props; styling is left to the consumer.
+ *
+ * @example
+ * ```tsx
+ * <Resizable minWidth={200} minHeight={100} maxWidth={600} className="panel">
+ *   Content
+ *   <ResizeHandle direction="right" />
+ *   <ResizeHandle direction="bottom-right" hitArea={16} />
+ * </Resizable>
+ * ```
+ */
+export const Resizable = forwardRef<HTMLElement, ResizableProps>(function Resizable(
+  { asChild = false, hitArea = DEFAULT_HIT_AREA, className, style, children, ...options },
+  forwardedRef
+) {
+  const resize = useDragResize(options);
+  // Tracked in state so handles re-resolve logical directions once it mounts
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  const hookRef = resize.ref;
+  // Why memoize? A new callback ref every render would detach and re-attach the
+  // element each time, bouncing both state setters through null.
+  const ref = useCallback(
+    (el: HTMLElement | null) => {
+      setElement(el);
+      hookRef(el);
+      mergeRefs(forwardedRef)(el);
+    },
+    [hookRef, forwardedRef]
+  );
+
+  const props: Record<string, unknown> = {
+    className,
+    style: {
+      position: "relative",
+      boxSizing: "border-box",
+      width: resize.currentWidth,
+      height: resize.currentHeight,
+      ...(options.pinch ? { touchAction: "none" } : null),
+      ...style,
+    },
+    ...(options.pinch ? { onPointerDown: resize.initiatePinch } : null),
+  };
+  const content = typeof children === "function" ? children(resize) : children;
+
+  return (
+    <ResizableContext.Provider value={{ resize, hitArea, element }}>
+      {asChild ? (
+        renderAsChild(content, props, ref)
+      ) : (
+        <div {...props} ref={ref}>
+          {content}
+        </div>
+      )}
+    </ResizableContext.Provider>
+  );
+});
+
+export type ResizeHandleComponentProps = {
+  /** Edge or corner to resize from; logical directions follow the box's writing mode. */
+  direction: ResizeDirection | LogicalResizeDirection;
+
+  /** Hit-area thickness in pixels. Default: the <Resizable>'s hitArea */
+  hitArea?: number;
+
+  /** Render onto the single child element instead of a div. */
+  asChild?: boolean;
+
+  className?: string;
+  style?: CSSProperties;
+
+  /** Content (e.g. a grip icon), or a render prop receiving the handle state. */
+  children?: ReactNode | ((state: ResizeHandleState) => ReactNode);
+};
+
+/**
+ * Resize handle for the enclosing <Resizable>.
+ *
+ * Positions itself over its edge or corner with the matching cursor, disables
+ * browser touch gestures (`touch-action: none`) so touch drags resize instead of
+ * scrolling, and carries the keyboard/ARIA separator props from getHandleProps.
+ */
+export const ResizeHandle = forwardRef<HTMLElement, ResizeHandleComponentProps>(function ResizeHandle(
+  { direction, hitArea, asChild = false, className, style, children },
+  forwardedRef
+) {
+  const { resize, hitArea: defaultHitArea, element } = useResizableContext("ResizeHandle");
+  const physical = resolveLogicalDirection(direction, element);
+
+  const props: Record<string, unknown> = {
+    ...resize.getHandleProps(direction),
+    "data-direction": physical,
+    className,
+    style: {
+      ...getHandlePlacement(physical, hitArea ?? defaultHitArea),
+      cursor: HANDLE_CURSORS[physical],
+      touchAction: "none",
+      ...style,
+    },
+  };
+  const content = typeof children === "function" ? children({ direction: physical, isResizing: resize.isResizing }) : children;
+
+  return asChild ? (
+    renderAsChild(content, props, forwardedRef)
+  ) : (
+    <div {...props} ref={forwardedRef as Ref<HTMLDivElement>}>
+      {content}
+    </div>
+  );
+});
@@ -0,0 +1,101 @@
+import {
+  PERSIST_VERSION,
+  createMemoryStorageAdapter,
+  localStorageAdapter,
+  readPersistedDimensions,
+  writePersistedDimensions,
+} from '../resize-storage';
+
+describe('resize-storage', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  describe('createMemoryStorageAdapter', () => {
+    test('should store, read and remove values', () => {
+      const storage = createMemoryStorageAdapter();
+
+      storage.setItem('a', '1');
+      expect(storage.getItem('a')).toBe('1');
+
+      storage.removeItem('a');
+      expect(storage.getItem('a')).toBeNull();
+    });
+
+    test('should isolate separate instances', () => {
+      const first = createMemoryStorageAdapter();
+      const second = createMemoryStorageAdapter();
+
+      first.setItem('a', '1');
+
+      expect(second.getItem('a')).toBeNull();
+    });
+  });
+
+  describe('localStorageAdapter', () => {
+    test('should read and write window.localStorage', () => {
+      localStorageAdapter.setItem('panel', 'value');
+      expect(window.localStorage.getItem('panel')).toBe('value');
+      expect(localStorageAdapter.getItem('panel')).toBe('value');
+    });
+
+    test('should swallow errors when storage throws', () => {
+      jest.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+        throw new Error('SecurityError');
+      });
+      jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+
+      expect(localStorageAdapter.getItem('panel')).toBeNull();
+      expect(() => localStorageAdapter.setItem('panel', 'value')).not.toThrow();
+    });
+  });
+
+  describe('readPersistedDimensions / writePersistedDimensions', () => {
+    test('should round-trip dimensions', () => {
+      const storage = createMemoryStorageAdapter();
+
+      writePersistedDimensions(storage, 'panel', { width: 320, height: 240 });
+
+      expect(JSON.parse(storage.getItem('panel') as string)).toEqual({
+        version: PERSIST_VERSION,
+        width: 320,
+        height: 240,
+      });
+      expect(readPersistedDimensions(storage, 'panel')).toEqual({ width: 320, height: 240 });
+    });
+
+    test('should return null for missing, corrupted or mismatched entries', () => {
+      const storage = createMemoryStorageAdapter();
+
+      expect(readPersistedDimensions(storage, 'missing')).toBeNull();
+
+      storage.setItem('corrupt', '{not json');
+      expect(readPersistedDimensions(storage, 'corrupt')).toBeNull();
+
+      storage.setItem('old', JSON.stringify({ version: PERSIST_VERSION + 1, width: 1, height: 1 }));
+      expect(readPersistedDimensions(storage, 'old')).toBeNull();
+
+      storage.setItem('nan', JSON.stringify({ version: PERSIST_VERSION, width: 'wide', height: 1 }));
+      expect(readPersistedDimensions(storage, 'nan')).toBeNull();
+    });
+
+    test('should tag non-pixel units and only restore them in the same unit', () => {
+      const storage = createMemoryStorageAdapter();
+
+      writePersistedDimensions(storage, 'pane', { width: 30, height: 100 }, '%');
+
+      expect(JSON.parse(storage.getItem('pane') as string)).toEqual({
+        version: PERSIST_VERSION,
+        width: 30,
+        height: 100,
+        unit: '%',
+      });
+      expect(readPersistedDimensions(storage, 'pane', '%')).toEqual({ width: 30, height: 100 });
+      expect(readPersistedDimensions(storage, 'pane')).toBeNull();
+      expect(readPersistedDimensions(storage, 'pane', 'fr')).toBeNull();
+    });
+  });
+});
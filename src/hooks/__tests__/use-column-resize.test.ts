@@ -0,0 +1,315 @@
+import { renderHook, act } from '@testing-library/react';
+import { useColumnResize } from '../use-column-resize';
+import type { ColumnConfig } from '../use-column-resize';
+
+describe('useColumnResize', () => {
+  let mockElement: HTMLDivElement;
+
+  beforeEach(() => {
+    mockElement = document.createElement('div');
+    mockElement.setPointerCapture = jest.fn();
+    mockElement.releasePointerCapture = jest.fn();
+
+    // Mock RAF to execute immediately
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 1;
+    });
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const startDrag = (initiate: (evt: React.PointerEvent<HTMLElement>) => void, pageX = 0) => {
+    const startEvent = {
+      preventDefault: jest.fn(),
+      stopPropagation: jest.fn(),
+      currentTarget: mockElement,
+      pointerId: 1,
+      pageX,
+    } as unknown as React.PointerEvent<HTMLElement>;
+
+    act(() => {
+      initiate(startEvent);
+    });
+  };
+
+  const moveTo = (pageX: number) => {
+    act(() => {
+      mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX }));
+    });
+  };
+
+  const release = (pageX: number) => {
+    act(() => {
+      mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX }));
+    });
+  };
+
+  /**
+   * Build a table root with one cell per entry of contentWidths[column], where each
+   * cell reports its content width through a data attribute read by measureCell.
+   */
+  const buildTable = (
+    getCellProps: (index: number) => Record<string, number>,
+    contentWidths: number[][]
+  ) => {
+    const root = document.createElement('div');
+    contentWidths.forEach((cells, column) => {
+      cells.forEach((width) => {
+        const cell = document.createElement('div');
+        Object.entries(getCellProps(column)).forEach(([name, value]) => cell.setAttribute(name, String(value)));
+        cell.dataset.contentWidth = String(width);
+        root.appendChild(cell);
+      });
+    });
+    return root;
+  };
+
+  const measureCell = (cell: HTMLElement) => Number(cell.dataset.contentWidth);
+
+  describe('Initial widths', () => {
+    test('should use initialWidth clamped to min/max, defaulting to 150', () => {
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200 }, {}, { initialWidth: 20, minWidth: 60 }])
+      );
+
+      expect(result.current.widths).toEqual([200, 150, 60]);
+    });
+
+    test('should fill totalWidth in total-width mode', () => {
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200 }, {}, {}], { totalWidth: 800 })
+      );
+
+      expect(result.current.widths).toEqual([200, 300, 300]);
+    });
+  });
+
+  describe('Dragging', () => {
+    test('should resize only the dragged column by default', () => {
+      const onWidthsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200 }, { initialWidth: 100 }], { onWidthsChange })
+      );
+
+      startDrag(result.current.initiateResize(0), 200);
+      moveTo(260);
+
+      expect(result.current.widths).toEqual([260, 100]);
+      expect(result.current.activeColumn).toBe(0);
+
+      release(260);
+      expect(result.current.isResizing).toBe(false);
+      expect(onWidthsChange).toHaveBeenCalledWith([260, 100]);
+    });
+
+    test('should respect per-column min/max', () => {
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200, minWidth: 120, maxWidth: 250 }])
+      );
+
+      startDrag(result.current.initiateResize(0), 200);
+      moveTo(400);
+      expect(result.current.widths).toEqual([250]);
+
+      moveTo(0);
+      expect(result.current.widths).toEqual([120]);
+    });
+
+    test('should take space from the following columns in total-width mode', () => {
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200 }, { initialWidth: 200 }, { initialWidth: 200 }], { totalWidth: 600 })
+      );
+
+      startDrag(result.current.initiateResize(0), 200);
+      moveTo(250);
+
+      expect(result.current.widths).toEqual([250, 150, 200]);
+    });
+
+    test('should borrow from the previous columns when the last column resizes', () => {
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200 }, { initialWidth: 200 }, { initialWidth: 200 }], { totalWidth: 600 })
+      );
+
+      startDrag(result.current.initiateResize(2), 600);
+      moveTo(650);
+
+      expect(result.current.widths).toEqual([200, 150, 250]);
+    });
+
+    test('should end the drag when pointer capture is lost', () => {
+      const onWidthsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200 }, { initialWidth: 100 }], { onWidthsChange })
+      );
+
+      startDrag(result.current.initiateResize(0), 200);
+      moveTo(260);
+
+      act(() => {
+        mockElement.dispatchEvent(new Event('lostpointercapture'));
+      });
+
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.widths).toEqual([200, 100]);
+      expect(onWidthsChange).not.toHaveBeenCalled();
+
+      moveTo(300);
+      expect(result.current.widths).toEqual([200, 100]);
+    });
+  });
+
+  describe('Auto-fit', () => {
+    test('should fit a column to its widest cell on double-click', () => {
+      const onWidthsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200 }, { initialWidth: 100 }], { measureCell, onWidthsChange })
+      );
+
+      act(() => {
+        result.current.ref(buildTable(result.current.getCellProps, [[90, 140, 120], [80]]));
+      });
+
+      act(() => {
+        result.current.getResizerProps(0).onDoubleClick();
+      });
+
+      expect(result.current.widths).toEqual([140, 100]);
+      expect(onWidthsChange).toHaveBeenCalledWith([140, 100]);
+    });
+
+    test('should measure content by default, leaving out the column border', () => {
+      // Laid out, a cell spans its column; the hidden max-content copy is as wide as
+      // its text (jsdom doesn't parse max-content, so key off the hidden copy)
+      jest.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+        const width = this.style.visibility === 'hidden' ? (this.textContent ?? '').length * 10 : 200;
+        return { width } as DOMRect;
+      });
+      const { result } = renderHook(() => useColumnResize([{ initialWidth: 200 }]));
+
+      const root = buildTable(result.current.getCellProps, [[0]]);
+      const header = root.firstChild as HTMLElement;
+      header.textContent = 'Filename';
+      const resizer = document.createElement('span');
+      Object.entries(result.current.getResizerProps(0)).forEach(([name, value]) => {
+        if (typeof value !== 'function') resizer.setAttribute(name, String(value));
+      });
+      resizer.textContent = 'grip'; // stands in for the border's own extent
+      header.appendChild(resizer);
+
+      act(() => {
+        result.current.ref(root);
+      });
+      act(() => {
+        result.current.getResizerProps(0).onDoubleClick();
+      });
+
+      expect(result.current.widths).toEqual([80]);
+      expect(root.childNodes).toHaveLength(1);
+      expect(header.childNodes).toHaveLength(2);
+    });
+
+    test('should clamp the fitted width to the column bounds', () => {
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200, maxWidth: 300 }], { measureCell })
+      );
+
+      act(() => {
+        result.current.ref(buildTable(result.current.getCellProps, [[500]]));
+      });
+      act(() => {
+        result.current.autoFit(0);
+      });
+
+      expect(result.current.widths).toEqual([300]);
+    });
+
+    test('should leave columns without marked cells unchanged', () => {
+      const { result } = renderHook(() => useColumnResize([{ initialWidth: 200 }], { measureCell }));
+
+      act(() => {
+        result.current.ref(document.createElement('div'));
+      });
+      act(() => {
+        result.current.autoFit(0);
+      });
+
+      expect(result.current.widths).toEqual([200]);
+    });
+
+    test('should fit all columns to their content', () => {
+      const { result } = renderHook(() =>
+        useColumnResize([{ initialWidth: 200 }, { initialWidth: 100 }, { initialWidth: 100 }], { measureCell })
+      );
+
+      act(() => {
+        result.current.ref(buildTable(result.current.getCellProps, [[120], [60, 180], [90]]));
+      });
+      act(() => {
+        result.current.fitAll();
+      });
+
+      expect(result.current.widths).toEqual([120, 180, 90]);
+    });
+
+    test('should scale fitted widths to fill the table in total-width mode', () => {
+      const { result } = renderHook(() =>
+        useColumnResize([{}, {}], { totalWidth: 600, measureCell })
+      );
+
+      act(() => {
+        result.current.ref(buildTable(result.current.getCellProps, [[100], [200]]));
+      });
+      act(() => {
+        result.current.fitAll();
+      });
+
+      expect(result.current.widths).toEqual([200, 400]);
+    });
+  });
+
+  describe('Total width changes', () => {
+    test('should re-fit proportionally when totalWidth changes', () => {
+      const { result, rerender } = renderHook(
+        ({ totalWidth }) => useColumnResize([{ initialWidth: 200 }, { initialWidth: 400 }], { totalWidth }),
+        { initialProps: { totalWidth: 600 } }
+      );
+
+      rerender({ totalWidth: 900 });
+
+      expect(result.current.widths).toEqual([300, 600]);
+    });
+
+    test('should lay out initial widths on the first non-zero totalWidth', () => {
+      const { result, rerender } = renderHook(
+        ({ totalWidth }) =>
+          useColumnResize([{ initialWidth: 200 }, { initialWidth: 100 }, {}], { totalWidth }),
+        { initialProps: { totalWidth: 0 } }
+      );
+
+      rerender({ totalWidth: 1000 });
+
+      expect(result.current.widths).toEqual([200, 100, 700]);
+    });
+
+    test.each([
+      ['without totalWidth', undefined, [150, 150, 120], [150, 150]],
+      ['with totalWidth', 600, [250, 250, 100], [300, 300]],
+    ])('should re-fit when columns are added or removed %s', (_, totalWidth, added, removed) => {
+      const { result, rerender } = renderHook(
+        ({ columns }) => useColumnResize(columns, { totalWidth }),
+        { initialProps: { columns: [{}, {}] as ColumnConfig[] } }
+      );
+
+      rerender({ columns: [{}, {}, { initialWidth: 120 }] });
+      expect(result.current.widths).toEqual(added);
+
+      rerender({ columns: [{}, {}] });
+      expect(result.current.widths).toEqual(removed);
+    });
+  });
+});
@@ -1,6 +1,8 @@
+import { useState } from 'react';
 import { renderHook, act } from '@testing-library/react';
-import { useDragResize } from '../use-drag-resize';
+import { useDragResize, resolveLogicalDirection } from '../use-drag-resize';
 import type { ElementDimensions } from '../use-drag-resize';
+import { PERSIST_VERSION, createMemoryStorageAdapter } from '../resize-storage';
 
 describe('useDragResize', () => {
   let mockElement: HTMLDivElement;
@@ -270,8 +272,8 @@ describe('useDragResize', () => {
     });
   });
 
-  describe('Constraints', () => {
-    test('should respect minimum width', () => {
+  describe('Vertical and corner resizing', () => {
+    test('should resize height when dragging bottom edge down', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
@@ -288,23 +290,23 @@ describe('useDragResize', () => {
         currentTarget: mockElement,
         pointerId: 1,
         pageX: 200,
+        pageY: 200,
       } as unknown as React.PointerEvent<HTMLElement>;
 
       act(() => {
-        result.current.initiateResize('right')(startEvent);
+        result.current.initiateResize('bottom')(startEvent);
       });
 
-      // Try to resize way below minimum
-      const moveEvent = new PointerEvent('pointermove', { pageX: 50 });
-
       act(() => {
-        mockElement.dispatchEvent(moveEvent);
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 260, pageY: 240 }));
       });
 
-      expect(result.current.currentWidth).toBe(100); // Clamped to minWidth
+      // Horizontal movement is ignored for a vertical edge
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.currentHeight).toBe(240);
     });
 
-    test('should respect maximum width', () => {
+    test('should increase height when dragging top edge up', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
@@ -321,23 +323,21 @@ describe('useDragResize', () => {
         currentTarget: mockElement,
         pointerId: 1,
         pageX: 200,
+        pageY: 200,
       } as unknown as React.PointerEvent<HTMLElement>;
 
       act(() => {
-        result.current.initiateResize('right')(startEvent);
+        result.current.initiateResize('top')(startEvent);
       });
 
-      // Try to resize way above maximum
-      const moveEvent = new PointerEvent('pointermove', { pageX: 1000 });
-
       act(() => {
-        mockElement.dispatchEvent(moveEvent);
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 200, pageY: 130 }));
       });
 
-      expect(result.current.currentWidth).toBe(500); // Clamped to maxWidth
+      expect(result.current.currentHeight).toBe(270);
     });
 
-    test('should respect maximum height when specified', () => {
+    test('should resize both axes from a corner', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
@@ -345,16 +345,31 @@ describe('useDragResize', () => {
           minWidth: 100,
           minHeight: 100,
           maxWidth: 500,
-          maxHeight: 300,
         })
       );
 
-      expect(result.current.currentHeight).toBeLessThanOrEqual(300);
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+        pageY: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('top-left')(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 150, pageY: 220 }));
+      });
+
+      expect(result.current.currentWidth).toBe(250);
+      expect(result.current.currentHeight).toBe(180);
     });
-  });
 
-  describe('Aspect ratio locking', () => {
-    test('should maintain aspect ratio when contentWidth and contentHeight are provided', () => {
+    test('should clamp height to minHeight and maxHeight', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
@@ -362,8 +377,7 @@ describe('useDragResize', () => {
           minWidth: 100,
           minHeight: 100,
           maxWidth: 500,
-          contentWidth: 16,
-          contentHeight: 9,
+          maxHeight: 300,
         })
       );
 
@@ -373,34 +387,35 @@ describe('useDragResize', () => {
         currentTarget: mockElement,
         pointerId: 1,
         pageX: 200,
+        pageY: 200,
       } as unknown as React.PointerEvent<HTMLElement>;
 
       act(() => {
-        result.current.initiateResize('right')(startEvent);
+        result.current.initiateResize('bottom-right')(startEvent);
       });
 
-      // Resize to 320px width
-      const moveEvent = new PointerEvent('pointermove', { pageX: 320 });
-
       act(() => {
-        mockElement.dispatchEvent(moveEvent);
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 250, pageY: 900 }));
       });
 
-      const aspectRatio = 9 / 16; // height / width
-      const expectedHeight = 320 * aspectRatio;
+      expect(result.current.currentHeight).toBe(300);
 
-      expect(result.current.currentWidth).toBe(320);
-      expect(result.current.currentHeight).toBe(expectedHeight);
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 250, pageY: 0 }));
+      });
+
+      expect(result.current.currentHeight).toBe(100);
     });
 
-    test('should not lock aspect ratio when contentWidth/contentHeight are not provided', () => {
+    test('should snap height to grid using boundaryHeight', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
-          initialHeight: 150,
+          initialHeight: 200,
           minWidth: 100,
           minHeight: 100,
           maxWidth: 500,
+          gridPercent: 25,
         })
       );
 
@@ -410,26 +425,24 @@ describe('useDragResize', () => {
         currentTarget: mockElement,
         pointerId: 1,
         pageX: 200,
+        pageY: 200,
       } as unknown as React.PointerEvent<HTMLElement>;
 
       act(() => {
-        result.current.initiateResize('right')(startEvent);
+        result.current.initiateResize('bottom', 500, 400)(startEvent);
       });
 
-      const moveEvent = new PointerEvent('pointermove', { pageX: 300 });
-
+      // 200 + 95 = 295 -> nearest 100px step is 300
       act(() => {
-        mockElement.dispatchEvent(moveEvent);
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 200, pageY: 295 }));
       });
 
-      // Height should remain unchanged (not locked to width)
-      expect(result.current.currentWidth).toBe(300);
-      expect(result.current.currentHeight).toBe(150);
+      expect(result.current.currentHeight).toBe(300);
     });
   });
 
-  describe('Grid snapping', () => {
-    test('should snap to grid when gridPercent is specified', () => {
+  describe('Constraints', () => {
+    test('should respect minimum width', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
@@ -437,7 +450,6 @@ describe('useDragResize', () => {
           minWidth: 100,
           minHeight: 100,
           maxWidth: 500,
-          gridPercent: 25, // 25% of 500 = 125px steps
         })
       );
 
@@ -450,22 +462,20 @@ describe('useDragResize', () => {
       } as unknown as React.PointerEvent<HTMLElement>;
 
       act(() => {
-        result.current.initiateResize('right', 500)(startEvent);
+        result.current.initiateResize('right')(startEvent);
       });
 
-      // Try to resize to 270px (should snap to nearest grid: 250 or 375)
-      const moveEvent = new PointerEvent('pointermove', { pageX: 270 });
+      // Try to resize way below minimum
+      const moveEvent = new PointerEvent('pointermove', { pageX: 50 });
 
       act(() => {
         mockElement.dispatchEvent(moveEvent);
       });
 
-      // Should snap to grid (125, 250, 375, 500)
-      const width = result.current.currentWidth;
-      expect(width % 125).toBe(0);
+      expect(result.current.currentWidth).toBe(100); // Clamped to minWidth
     });
 
-    test('should not snap when gridPercent is 100', () => {
+    test('should respect maximum width', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
@@ -473,7 +483,6 @@ describe('useDragResize', () => {
           minWidth: 100,
           minHeight: 100,
           maxWidth: 500,
-          gridPercent: 100, // No snapping
         })
       );
 
@@ -489,21 +498,17 @@ describe('useDragResize', () => {
         result.current.initiateResize('right')(startEvent);
       });
 
-      // Resize to non-grid value
-      const moveEvent = new PointerEvent('pointermove', { pageX: 237 });
+      // Try to resize way above maximum
+      const moveEvent = new PointerEvent('pointermove', { pageX: 1000 });
 
       act(() => {
         mockElement.dispatchEvent(moveEvent);
       });
 
-      expect(result.current.currentWidth).toBe(237);
+      expect(result.current.currentWidth).toBe(500); // Clamped to maxWidth
     });
-  });
-
-  describe('Live updates', () => {
-    test('should call onDimensionsChange during drag when live is true', () => {
-      const onDimensionsChange = jest.fn();
 
+    test('should respect maximum height when specified', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
@@ -511,77 +516,473 @@ describe('useDragResize', () => {
           minWidth: 100,
           minHeight: 100,
           maxWidth: 500,
-          live: true,
+          maxHeight: 300,
+        })
+      );
+
+      expect(result.current.currentHeight).toBeLessThanOrEqual(300);
+    });
+
+    test('should clamp an initial size above max without notifying', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 600,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
           onDimensionsChange,
         })
       );
 
+      expect(result.current.currentWidth).toBe(500);
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+    });
+
+    test('should re-clamp and notify only when maxWidth decreases', () => {
+      const onDimensionsChange = jest.fn();
+      const { result, rerender } = renderHook(
+        ({ maxWidth }) =>
+          useDragResize({
+            initialWidth: 400,
+            initialHeight: 100,
+            minWidth: 100,
+            minHeight: 100,
+            maxWidth,
+            onDimensionsChange,
+          }),
+        { initialProps: { maxWidth: 500 } }
+      );
+
+      rerender({ maxWidth: 800 });
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+
+      rerender({ maxWidth: 300 });
+      expect(result.current.currentWidth).toBe(300);
+      expect(onDimensionsChange).toHaveBeenCalledTimes(1);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 300, height: 100 });
+    });
+  });
+
+  describe('Measured bounds', () => {
+    let observers: Array<{ callback: ResizeObserverCallback; observed: Element[] }>;
+    const OriginalResizeObserver = global.ResizeObserver;
+
+    const setContainerSize = (el: HTMLElement, width: number, height: number) => {
+      Object.defineProperty(el, 'clientWidth', { configurable: true, value: width });
+      Object.defineProperty(el, 'clientHeight', { configurable: true, value: height });
+    };
+
+    beforeEach(() => {
+      observers = [];
+      global.ResizeObserver = class {
+        private entry: { callback: ResizeObserverCallback; observed: Element[] };
+        constructor(callback: ResizeObserverCallback) {
+          this.entry = { callback, observed: [] };
+          observers.push(this.entry);
+        }
+        observe(el: Element) {
+          this.entry.observed.push(el);
+        }
+        unobserve() {}
+        disconnect() {
+          this.entry.observed = [];
+        }
+      } as unknown as typeof ResizeObserver;
+    });
+
+    afterEach(() => {
+      global.ResizeObserver = OriginalResizeObserver;
+    });
+
+    const triggerResize = () => {
+      observers.forEach((o) => o.callback([], {} as ResizeObserver));
+    };
+
+    test('should derive maxWidth/maxHeight from the parent when not given', () => {
+      const parent = document.createElement('div');
+      const child = document.createElement('div');
+      parent.appendChild(child);
+      setContainerSize(parent, 600, 400);
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          bounds: 'parent',
+        })
+      );
+
+      act(() => {
+        result.current.ref(child);
+      });
+
+      expect(observers[0].observed).toContain(parent);
+      expect(result.current.maxWidth).toBe(600);
+      expect(result.current.maxHeight).toBe(400);
+
       const startEvent = {
         preventDefault: jest.fn(),
         stopPropagation: jest.fn(),
         currentTarget: mockElement,
         pointerId: 1,
         pageX: 200,
+        pageY: 200,
       } as unknown as React.PointerEvent<HTMLElement>;
 
       act(() => {
-        result.current.initiateResize('right')(startEvent);
+        result.current.initiateResize('bottom-right')(startEvent);
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 2000, pageY: 2000 }));
       });
 
-      onDimensionsChange.mockClear();
+      expect(result.current.currentWidth).toBe(600);
+      expect(result.current.currentHeight).toBe(400);
+    });
 
-      const moveEvent = new PointerEvent('pointermove', { pageX: 250 });
+    test('should re-clamp current dimensions when the container shrinks', () => {
+      const onDimensionsChange = jest.fn();
+      const container = document.createElement('div');
+      setContainerSize(container, 800, 600);
+      const boundsRef = { current: container };
 
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 500,
+          initialHeight: 300,
+          minWidth: 100,
+          minHeight: 100,
+          bounds: boundsRef,
+          onDimensionsChange,
+        })
+      );
+
+      expect(result.current.currentWidth).toBe(500);
+
+      setContainerSize(container, 400, 250);
       act(() => {
-        mockElement.dispatchEvent(moveEvent);
+        triggerResize();
       });
 
-      expect(onDimensionsChange).toHaveBeenCalled();
-      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 250, height: 200 });
+      expect(result.current.currentWidth).toBe(400);
+      expect(result.current.currentHeight).toBe(250);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 400, height: 250 });
     });
 
-    test('should not call onDimensionsChange during drag when live is false', () => {
-      const onDimensionsChange = jest.fn();
+    test('should use the smaller of static maxWidth and measured bounds', () => {
+      const container = document.createElement('div');
+      setContainerSize(container, 800, 600);
 
       const { result } = renderHook(() =>
         useDragResize({
-          initialWidth: 200,
-          initialHeight: 200,
           minWidth: 100,
           minHeight: 100,
           maxWidth: 500,
-          live: false,
-          onDimensionsChange,
+          bounds: { current: container },
         })
       );
 
-      const startEvent = {
-        preventDefault: jest.fn(),
-        stopPropagation: jest.fn(),
-        currentTarget: mockElement,
-        pointerId: 1,
-        pageX: 200,
-      } as unknown as React.PointerEvent<HTMLElement>;
+      expect(result.current.maxWidth).toBe(500);
 
+      setContainerSize(container, 300, 600);
       act(() => {
-        result.current.initiateResize('right')(startEvent);
+        triggerResize();
       });
 
-      onDimensionsChange.mockClear();
+      expect(result.current.maxWidth).toBe(300);
+    });
 
-      const moveEvent = new PointerEvent('pointermove', { pageX: 250 });
+    test('should ignore zero-size measurements from hidden containers', () => {
+      const container = document.createElement('div');
+      setContainerSize(container, 0, 0);
 
-      act(() => {
-        mockElement.dispatchEvent(moveEvent);
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 300,
+          minWidth: 100,
+          minHeight: 100,
+          bounds: { current: container },
+        })
+      );
+
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.maxWidth).toBe(Number.POSITIVE_INFINITY);
+    });
+    describe('Constraint resolvers', () => {
+      const originalInnerWidth = window.innerWidth;
+
+      afterEach(() => {
+        window.innerWidth = originalInnerWidth;
       });
 
-      // Should NOT be called during drag
-      expect(onDimensionsChange).not.toHaveBeenCalled();
+      const dragRight = (result: { current: ReturnType<typeof useDragResize> }, toX: number) => {
+        act(() => {
+          result.current.initiateResize('right')({
+            preventDefault: jest.fn(),
+            stopPropagation: jest.fn(),
+            currentTarget: mockElement,
+            pointerId: 1,
+            pageX: 0,
+            pageY: 0,
+          } as unknown as React.PointerEvent<HTMLElement>);
+        });
+        act(() => {
+          mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: toX }));
+        });
+      };
+
+      test('should evaluate against the container and re-clamp when it shrinks', () => {
+        const onDimensionsChange = jest.fn();
+        const parent = document.createElement('div');
+        const child = document.createElement('div');
+        parent.appendChild(child);
+        setContainerSize(parent, 1000, 500);
+
+        const { result } = renderHook(() =>
+          useDragResize({
+            initialWidth: 600,
+            initialHeight: 200,
+            minWidth: 100,
+            minHeight: 100,
+            maxWidth: ({ container }) => (container ? container.width - 300 : Infinity),
+            onDimensionsChange,
+          })
+        );
+
+        act(() => {
+          result.current.ref(child);
+        });
+        expect(result.current.maxWidth).toBe(700);
+
+        setContainerSize(parent, 800, 500);
+        act(() => {
+          triggerResize();
+        });
+
+        expect(result.current.maxWidth).toBe(500);
+        expect(result.current.currentWidth).toBe(500);
+        expect(onDimensionsChange).toHaveBeenCalledWith({ width: 500, height: 200 });
+      });
+
+      test('should re-evaluate when the viewport resizes', () => {
+        window.innerWidth = 1200;
+        const { result } = renderHook(() =>
+          useDragResize({
+            initialWidth: 600,
+            initialHeight: 200,
+            minWidth: 100,
+            minHeight: 100,
+            maxWidth: ({ viewport }) => viewport.width - 480,
+          })
+        );
+
+        expect(result.current.maxWidth).toBe(720);
+
+        window.innerWidth = 900;
+        act(() => {
+          window.dispatchEvent(new Event('resize'));
+        });
+
+        expect(result.current.maxWidth).toBe(420);
+        expect(result.current.currentWidth).toBe(420);
+      });
+
+      test('should re-evaluate at drag start', () => {
+        let limit = 400;
+        const { result } = renderHook(() =>
+          useDragResize({
+            initialWidth: 200,
+            initialHeight: 200,
+            minWidth: 100,
+            minHeight: 100,
+            maxWidth: () => limit,
+          })
+        );
+
+        // Changed without a re-render - only the drag start picks it up
+        limit = 300;
+        dragRight(result, 500);
+
+        expect(result.current.currentWidth).toBe(300);
+        expect(result.current.maxWidth).toBe(300);
+      });
+
+      test('should raise the size when a min resolver grows', () => {
+        const onDimensionsChange = jest.fn();
+        const parent = document.createElement('div');
+        const child = document.createElement('div');
+        parent.appendChild(child);
+        setContainerSize(parent, 1000, 500);
+
+        const { result } = renderHook(() =>
+          useDragResize({
+            initialWidth: 200,
+            initialHeight: 200,
+            minWidth: ({ container }) => (container ? container.width / 4 : 100),
+            minHeight: 100,
+            onDimensionsChange,
+          })
+        );
+
+        expect(result.current.minWidth).toBe(100);
+        act(() => {
+          result.current.ref(child);
+        });
+
+        expect(result.current.minWidth).toBe(250);
+        expect(result.current.currentWidth).toBe(250);
+        expect(onDimensionsChange).toHaveBeenCalledWith({ width: 250, height: 200 });
+      });
     });
 
-    test('should call onDimensionsChange on pointer up regardless of live setting', () => {
-      const onDimensionsChange = jest.fn();
+    describe('Relative units', () => {
+      const drag = (result: { current: ReturnType<typeof useDragResize> }, toX: number) => {
+        act(() => {
+          result.current.initiateResize('right')({
+            preventDefault: jest.fn(),
+            stopPropagation: jest.fn(),
+            currentTarget: mockElement,
+            pointerId: 1,
+            pageX: 0,
+            pageY: 0,
+          } as unknown as React.PointerEvent<HTMLElement>);
+        });
+        act(() => {
+          mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: toX }));
+        });
+        act(() => {
+          mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: toX }));
+        });
+      };
+
+      const mountIn = (width: number, height: number) => {
+        const parent = document.createElement('div');
+        const child = document.createElement('div');
+        parent.appendChild(child);
+        setContainerSize(parent, width, height);
+        return { parent, child };
+      };
+
+      test('should resolve percentages against the parent and report them in callbacks', () => {
+        const onDimensionsChange = jest.fn();
+        const onResizeEnd = jest.fn();
+        const { child } = mountIn(1000, 500);
+        const { result } = renderHook(() =>
+          useDragResize({
+            initialWidth: 30,
+            minWidth: 100,
+            minHeight: 100,
+            unit: '%',
+            onDimensionsChange,
+            onResizeEnd,
+          })
+        );
+
+        act(() => {
+          result.current.ref(child);
+        });
+
+        expect(result.current.currentWidth).toBe(300);
+        expect(result.current.currentHeight).toBe(100); // minHeight stays in pixels
+
+        drag(result, 100);
+
+        expect(result.current.currentWidth).toBe(400);
+        expect(onDimensionsChange).toHaveBeenLastCalledWith({ width: 40, height: 20 });
+        expect(onResizeEnd).toHaveBeenCalledWith(
+          expect.objectContaining({ startDimensions: { width: 30, height: 20 }, dimensions: { width: 40, height: 20 } })
+        );
+      });
+
+      test('should keep the percentage when the container resizes', () => {
+        const { parent, child } = mountIn(1000, 500);
+        const { result } = renderHook(() =>
+          useDragResize({ initialWidth: 30, initialHeight: 50, minWidth: 100, minHeight: 100, unit: '%' })
+        );
+
+        act(() => {
+          result.current.ref(child);
+        });
+
+        setContainerSize(parent, 600, 400);
+        act(() => {
+          triggerResize();
+        });
+        expect(result.current.currentWidth).toBe(180);
+        expect(result.current.currentHeight).toBe(200);
+
+        // Below the pixel minimum the element stops at minWidth
+        setContainerSize(parent, 300, 400);
+        act(() => {
+          triggerResize();
+        });
+        expect(result.current.currentWidth).toBe(100);
+      });
 
+      test('should persist and restore fractions of the container', () => {
+        const storage = createMemoryStorageAdapter();
+        storage.setItem('pane', JSON.stringify({ version: PERSIST_VERSION, width: 0.25, height: 0.5, unit: 'fr' }));
+        const { child } = mountIn(800, 400);
+
+        const { result } = renderHook(() =>
+          useDragResize({ minWidth: 100, minHeight: 100, unit: 'fr', persistKey: 'pane', storage })
+        );
+        act(() => {
+          result.current.ref(child);
+        });
+
+        expect(result.current.currentWidth).toBe(200);
+        expect(result.current.currentHeight).toBe(200);
+
+        drag(result, 200);
+
+        expect(JSON.parse(storage.getItem('pane') as string)).toEqual({
+          version: PERSIST_VERSION,
+          width: 0.5,
+          height: 0.5,
+          unit: 'fr',
+        });
+      });
+
+      test('should take controlled sizes and setDimensions in the unit', () => {
+        const onChange = jest.fn();
+        const { child } = mountIn(1000, 500);
+        const { result } = renderHook(() => {
+          const [size, setSize] = useState({ width: 50, height: 40 });
+          return useDragResize({
+            width: size.width,
+            height: size.height,
+            minWidth: 100,
+            minHeight: 100,
+            unit: '%',
+            onChange: (d) => {
+              onChange(d);
+              setSize(d);
+            },
+          });
+        });
+
+        act(() => {
+          result.current.ref(child);
+        });
+        expect(result.current.currentWidth).toBe(500);
+        expect(result.current.currentHeight).toBe(200);
+
+        act(() => {
+          result.current.setDimensions({ width: 20, height: 40 });
+        });
+        expect(onChange).toHaveBeenLastCalledWith({ width: 20, height: 40 });
+        expect(result.current.currentWidth).toBe(200);
+      });
+    });
+  });
+
+  describe('Aspect ratio locking', () => {
+    test('should maintain aspect ratio when contentWidth and contentHeight are provided', () => {
       const { result } = renderHook(() =>
         useDragResize({
           initialWidth: 200,
@@ -589,8 +990,8 @@ describe('useDragResize', () => {
           minWidth: 100,
           minHeight: 100,
           maxWidth: 500,
-          live: false,
-          onDimensionsChange,
+          contentWidth: 16,
+          contentHeight: 9,
         })
       );
 
@@ -606,22 +1007,3081 @@ describe('useDragResize', () => {
         result.current.initiateResize('right')(startEvent);
       });
 
-      const moveEvent = new PointerEvent('pointermove', { pageX: 250 });
+      // Resize to 320px width
+      const moveEvent = new PointerEvent('pointermove', { pageX: 320 });
 
       act(() => {
         mockElement.dispatchEvent(moveEvent);
       });
 
-      onDimensionsChange.mockClear();
-
-      const upEvent = new PointerEvent('pointerup');
+      const aspectRatio = 9 / 16; // height / width
+      const expectedHeight = 320 * aspectRatio;
 
-      act(() => {
+      expect(result.current.currentWidth).toBe(320);
+      expect(result.current.currentHeight).toBe(expectedHeight);
+    });
+
+    test('should not lock aspect ratio when contentWidth/contentHeight are not provided', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 150,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      const moveEvent = new PointerEvent('pointermove', { pageX: 300 });
+
+      act(() => {
+        mockElement.dispatchEvent(moveEvent);
+      });
+
+      // Height should remain unchanged (not locked to width)
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.currentHeight).toBe(150);
+    });
+
+    test('should lock a free element to its drag-start ratio while Shift is held', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 500,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300, shiftKey: true }));
+      });
+
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.currentHeight).toBe(150);
+
+      // Releasing Shift mid-drag goes back to free resizing
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 320 }));
+      });
+
+      expect(result.current.currentWidth).toBe(320);
+      expect(result.current.currentHeight).toBe(100);
+    });
+
+    test('should unlock a locked element while Shift is held', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 500,
+          contentWidth: 2,
+          contentHeight: 1,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300, shiftKey: true }));
+      });
+
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.currentHeight).toBe(100);
+    });
+
+    test('should ignore Shift when shiftToggleAspect is false', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 500,
+          shiftToggleAspect: false,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300, shiftKey: true }));
+      });
+
+      expect(result.current.currentHeight).toBe(100);
+    });
+
+    test('should derive width from height when dragging a top/bottom edge', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 500,
+          contentWidth: 2,
+          contentHeight: 1,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 0,
+        pageY: 100,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('bottom')(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 0, pageY: 150 }));
+      });
+
+      expect(result.current.currentHeight).toBe(150);
+      expect(result.current.currentWidth).toBe(300);
+    });
+
+    test('should reconcile maxWidth and maxHeight so both hold at the locked ratio', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 500,
+          maxHeight: 200,
+          contentWidth: 2,
+          contentHeight: 1,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      // 480px wide would need 240px of height - maxHeight caps the width at 400 instead
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 480 }));
+      });
+
+      expect(result.current.currentWidth).toBe(400);
+      expect(result.current.currentHeight).toBe(200);
+    });
+  });
+
+  describe('Collapsible', () => {
+    test('should snap to collapsedSize below the threshold instead of clamping at minWidth', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 300,
+          initialHeight: 200,
+          minWidth: 200,
+          minHeight: 100,
+          maxWidth: 500,
+          collapsible: true,
+          collapsedSize: 48,
+          collapseThreshold: 150,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 300,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      // 160 is below minWidth but above the threshold - clamps to minWidth
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 160 }));
+      });
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.isCollapsed).toBe(false);
+
+      // 140 is below the threshold - snaps to collapsedSize
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 140 }));
+      });
+      expect(result.current.currentWidth).toBe(48);
+      expect(result.current.isCollapsed).toBe(true);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+
+      // Expanding restores the pre-drag width
+      act(() => {
+        result.current.expand();
+      });
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.isCollapsed).toBe(false);
+    });
+
+    test('should collapse, expand and toggle imperatively', () => {
+      const onDimensionsChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 320,
+          initialHeight: 200,
+          minWidth: 200,
+          minHeight: 100,
+          maxWidth: 500,
+          collapsible: true,
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.collapse();
+      });
+      expect(result.current.currentWidth).toBe(0);
+      expect(result.current.isCollapsed).toBe(true);
+      expect(onDimensionsChange).toHaveBeenLastCalledWith({ width: 0, height: 200 });
+
+      act(() => {
+        result.current.toggle();
+      });
+      expect(result.current.currentWidth).toBe(320);
+
+      act(() => {
+        result.current.toggle();
+      });
+      expect(result.current.isCollapsed).toBe(true);
+    });
+
+    test('should ignore collapse controls when not collapsible', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 320,
+          initialHeight: 200,
+          minWidth: 200,
+          minHeight: 100,
+          maxWidth: 500,
+        })
+      );
+
+      act(() => {
+        result.current.collapse();
+      });
+
+      expect(result.current.currentWidth).toBe(320);
+      expect(result.current.isCollapsed).toBe(false);
+    });
+
+    test('should toggle collapse with Enter on a focused handle', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 320,
+          initialHeight: 200,
+          minWidth: 200,
+          minHeight: 100,
+          maxWidth: 500,
+          collapsible: true,
+        })
+      );
+
+      const enter = { key: 'Enter', shiftKey: false, preventDefault: jest.fn() } as unknown as React.KeyboardEvent<HTMLElement>;
+
+      act(() => {
+        result.current.getHandleProps('right').onKeyDown(enter);
+      });
+
+      expect(result.current.isCollapsed).toBe(true);
+      expect(result.current.getHandleProps('right')['aria-valuemin']).toBe(0);
+    });
+  });
+
+  describe('Grid snapping', () => {
+    test('should snap to grid when gridPercent is specified', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          gridPercent: 25, // 25% of 500 = 125px steps
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right', 500)(startEvent);
+      });
+
+      // Try to resize to 270px (should snap to nearest grid: 250 or 375)
+      const moveEvent = new PointerEvent('pointermove', { pageX: 270 });
+
+      act(() => {
+        mockElement.dispatchEvent(moveEvent);
+      });
+
+      // Should snap to grid (125, 250, 375, 500)
+      const width = result.current.currentWidth;
+      expect(width % 125).toBe(0);
+    });
+
+    test('should not snap when gridPercent is 100', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          gridPercent: 100, // No snapping
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      // Resize to non-grid value
+      const moveEvent = new PointerEvent('pointermove', { pageX: 237 });
+
+      act(() => {
+        mockElement.dispatchEvent(moveEvent);
+      });
+
+      expect(result.current.currentWidth).toBe(237);
+    });
+  });
+
+  describe('Snap points', () => {
+    const dragTo = (
+      initiate: (evt: React.PointerEvent<HTMLElement>) => void,
+      to: { pageX?: number; pageY?: number }
+    ) => {
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+        pageY: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        initiate(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 200, pageY: 200, ...to }));
+      });
+    };
+
+    test('should snap to absolute breakpoints within snapDistance', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 600,
+          snapPoints: [240, 320, 480],
+          snapDistance: 12,
+        })
+      );
+
+      dragTo(result.current.initiateResize('right'), { pageX: 310 });
+
+      expect(result.current.currentWidth).toBe(320);
+    });
+
+    test('should resize freely between breakpoints', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 600,
+          snapPoints: [240, 320, 480],
+        })
+      );
+
+      dragTo(result.current.initiateResize('right'), { pageX: 280 });
+
+      expect(result.current.currentWidth).toBe(280);
+    });
+
+    test('should use per-axis breakpoints for height', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 600,
+          snapPoints: { width: [240], height: [260] },
+        })
+      );
+
+      dragTo(result.current.initiateResize('bottom-right'), { pageX: 236, pageY: 255 });
+
+      expect(result.current.currentWidth).toBe(240);
+      expect(result.current.currentHeight).toBe(260);
+    });
+
+    test('should snap to a fixed pixel step', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 600,
+          snapStep: 50,
+        })
+      );
+
+      dragTo(result.current.initiateResize('right'), { pageX: 243 });
+      expect(result.current.currentWidth).toBe(250);
+    });
+
+    test('should call a custom snap function with context', () => {
+      const snap = jest.fn((proposed: number) => Math.round(proposed / 64) * 64);
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 600,
+          snap,
+        })
+      );
+
+      dragTo(result.current.initiateResize('right'), { pageX: 250 });
+
+      expect(snap).toHaveBeenCalledWith(250, { axis: 'width', boundary: 600, min: 100, max: 600 });
+      expect(result.current.currentWidth).toBe(256);
+    });
+  });
+
+  describe('Live updates', () => {
+    test('should call onDimensionsChange during drag when live is true', () => {
+      const onDimensionsChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          live: true,
+          onDimensionsChange,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      onDimensionsChange.mockClear();
+
+      const moveEvent = new PointerEvent('pointermove', { pageX: 250 });
+
+      act(() => {
+        mockElement.dispatchEvent(moveEvent);
+      });
+
+      expect(onDimensionsChange).toHaveBeenCalled();
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 250, height: 200 });
+    });
+
+    test('should not call onDimensionsChange during drag when live is false', () => {
+      const onDimensionsChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          live: false,
+          onDimensionsChange,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      onDimensionsChange.mockClear();
+
+      const moveEvent = new PointerEvent('pointermove', { pageX: 250 });
+
+      act(() => {
+        mockElement.dispatchEvent(moveEvent);
+      });
+
+      // Should NOT be called during drag
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+    });
+
+    test('should call onDimensionsChange on pointer up regardless of live setting', () => {
+      const onDimensionsChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          live: false,
+          onDimensionsChange,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      const moveEvent = new PointerEvent('pointermove', { pageX: 250 });
+
+      act(() => {
+        mockElement.dispatchEvent(moveEvent);
+      });
+
+      onDimensionsChange.mockClear();
+
+      const upEvent = new PointerEvent('pointerup');
+
+      act(() => {
         mockElement.dispatchEvent(upEvent);
       });
 
-      // Should be called on release
-      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 250, height: 200 });
+      // Should be called on release
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 250, height: 200 });
+    });
+  });
+
+  describe('Keyboard resizing', () => {
+    const keyEvent = (key: string, shiftKey = false) =>
+      ({
+        key,
+        shiftKey,
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLElement>);
+
+    test('should expose ARIA separator props for a handle', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 150,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          maxHeight: 400,
+        })
+      );
+
+      const rightProps = result.current.getHandleProps('right');
+      expect(rightProps.role).toBe('separator');
+      expect(rightProps.tabIndex).toBe(0);
+      expect(rightProps['aria-orientation']).toBe('vertical');
+      expect(rightProps['aria-valuenow']).toBe(200);
+      expect(rightProps['aria-valuemin']).toBe(100);
+      expect(rightProps['aria-valuemax']).toBe(500);
+
+      const bottomProps = result.current.getHandleProps('bottom');
+      expect(bottomProps['aria-orientation']).toBe('horizontal');
+      expect(bottomProps['aria-valuenow']).toBe(150);
+      expect(bottomProps['aria-valuemax']).toBe(400);
+    });
+
+    test('should step by keyboardStep and keyboardLargeStep with arrow keys', () => {
+      const onDimensionsChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          keyboardStep: 5,
+          keyboardLargeStep: 40,
+          onDimensionsChange,
+        })
+      );
+
+      const event = keyEvent('ArrowRight');
+      act(() => {
+        result.current.getHandleProps('right').onKeyDown(event);
+      });
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(result.current.currentWidth).toBe(205);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 205, height: 200 });
+
+      act(() => {
+        result.current.getHandleProps('right').onKeyDown(keyEvent('ArrowLeft', true));
+      });
+
+      expect(result.current.currentWidth).toBe(165);
+    });
+
+    test('should grow a left handle with ArrowLeft and a top handle with ArrowUp', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+        })
+      );
+
+      act(() => {
+        result.current.getHandleProps('left').onKeyDown(keyEvent('ArrowLeft'));
+      });
+      act(() => {
+        result.current.getHandleProps('top').onKeyDown(keyEvent('ArrowUp'));
+      });
+
+      expect(result.current.currentWidth).toBe(210);
+      expect(result.current.currentHeight).toBe(210);
+    });
+
+    test('should jump to min and max with Home and End', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+        })
+      );
+
+      act(() => {
+        result.current.getHandleProps('right').onKeyDown(keyEvent('End'));
+      });
+      expect(result.current.currentWidth).toBe(500);
+
+      act(() => {
+        result.current.getHandleProps('right').onKeyDown(keyEvent('Home'));
+      });
+      expect(result.current.currentWidth).toBe(100);
+    });
+
+    test('should ignore unrelated keys', () => {
+      const onDimensionsChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onDimensionsChange,
+        })
+      );
+
+      const event = keyEvent('Enter');
+      act(() => {
+        result.current.getHandleProps('right').onKeyDown(event);
+      });
+
+      expect(event.preventDefault).not.toHaveBeenCalled();
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+      expect(result.current.currentWidth).toBe(200);
+    });
+  });
+
+  describe('Lifecycle callbacks', () => {
+    test('should fire onResizeStart, onResize and onResizeEnd with gesture metadata', () => {
+      const onResizeStart = jest.fn();
+      const onResize = jest.fn();
+      const onResizeEnd = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onResizeStart,
+          onResize,
+          onResizeEnd,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pointerType: 'touch',
+        pageX: 200,
+        pageY: 100,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('left')(startEvent);
+      });
+
+      expect(onResizeStart).toHaveBeenCalledWith(
+        expect.objectContaining({
+          direction: 'left',
+          pointerType: 'touch',
+          startDimensions: { width: 200, height: 200 },
+          delta: { x: 0, y: 0 },
+        })
+      );
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 150, pageY: 110 }));
+      });
+
+      expect(onResize).toHaveBeenCalledTimes(1);
+      expect(onResize.mock.calls[0][0]).toMatchObject({
+        direction: 'left',
+        dimensions: { width: 250, height: 200 },
+        delta: { x: -50, y: 10 },
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+
+      expect(onResizeEnd).toHaveBeenCalledTimes(1);
+      const endInfo = onResizeEnd.mock.calls[0][0];
+      expect(endInfo.dimensions).toEqual({ width: 250, height: 200 });
+      expect(endInfo.startDimensions).toEqual({ width: 200, height: 200 });
+      expect(endInfo.elapsed).toBeGreaterThanOrEqual(0);
+    });
+
+    test('should not fire onResize for deduplicated moves or onResizeEnd on cancel', () => {
+      const onResize = jest.fn();
+      const onResizeEnd = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onResize,
+          onResizeEnd,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 200.3 }));
+      });
+
+      expect(onResize).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.cancelResize();
+      });
+
+      expect(onResizeEnd).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Transform-aware resizing', () => {
+    const drag = (
+      initiate: (evt: React.PointerEvent<HTMLElement>) => void,
+      to: { pageX: number; pageY: number }
+    ) => {
+      act(() => {
+        initiate({
+          preventDefault: jest.fn(),
+          stopPropagation: jest.fn(),
+          currentTarget: mockElement,
+          pointerId: 1,
+          pageX: 100,
+          pageY: 100,
+        } as unknown as React.PointerEvent<HTMLElement>);
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', to));
+      });
+    };
+
+    test('should divide pointer deltas by a static scale', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          scale: 0.5,
+        })
+      );
+
+      drag(result.current.initiateResize('right'), { pageX: 150, pageY: 100 });
+
+      expect(result.current.currentWidth).toBe(300);
+    });
+
+    test('should read a scale getter at drag start', () => {
+      const getScale = jest.fn(() => 2);
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          scale: getScale,
+        })
+      );
+
+      drag(result.current.initiateResize('bottom-right'), { pageX: 200, pageY: 140 });
+
+      expect(getScale).toHaveBeenCalledTimes(1);
+      expect(result.current.currentWidth).toBe(250);
+      expect(result.current.currentHeight).toBe(220);
+    });
+
+    test('should project deltas into the local axes of a rotated element', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          rotation: 90,
+        })
+      );
+
+      // Rotated 90deg clockwise, the element's right edge faces down the page
+      drag(result.current.initiateResize('right'), { pageX: 100, pageY: 160 });
+
+      expect(result.current.currentWidth).toBeCloseTo(260);
+      expect(result.current.currentHeight).toBe(200);
+    });
+
+    test('should apply scale to move mode', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          scale: 0.5,
+        })
+      );
+
+      drag(result.current.initiateMove, { pageX: 120, pageY: 110 });
+
+      expect(result.current.position).toEqual({ x: 40, y: 20 });
+    });
+  });
+
+  describe('Pinch to resize', () => {
+    const pointerDown = (
+      initiate: (evt: React.PointerEvent<HTMLElement>) => void,
+      pointerId: number,
+      pageX: number,
+      pageY: number
+    ) => {
+      act(() => {
+        initiate({
+          preventDefault: jest.fn(),
+          stopPropagation: jest.fn(),
+          currentTarget: mockElement,
+          pointerId,
+          pointerType: 'touch',
+          pageX,
+          pageY,
+        } as unknown as React.PointerEvent<HTMLElement>);
+      });
+    };
+
+    const dispatch = (type: string, pointerId: number, pageX = 0, pageY = 0) => {
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent(type, { pointerId, pageX, pageY }));
+      });
+    };
+
+    test('should scale dimensions by the change in distance between two pointers', () => {
+      const onDimensionsChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 1000,
+          pinch: true,
+          onDimensionsChange,
+        })
+      );
+
+      pointerDown(result.current.initiatePinch, 1, 100, 100);
+      expect(result.current.isResizing).toBe(false);
+
+      pointerDown(result.current.initiatePinch, 2, 200, 100);
+      expect(result.current.isResizing).toBe(true);
+
+      // Distance 100 -> 150 = 1.5x
+      dispatch('pointermove', 2, 250, 100);
+
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.currentHeight).toBe(150);
+
+      dispatch('pointerup', 1);
+      dispatch('pointerup', 2);
+
+      expect(result.current.isResizing).toBe(false);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 300, height: 150 });
+    });
+
+    test('should respect aspect lock and max while pinching', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 160,
+          initialHeight: 90,
+          minWidth: 80,
+          minHeight: 45,
+          maxWidth: 320,
+          contentWidth: 16,
+          contentHeight: 9,
+          pinch: true,
+        })
+      );
+
+      pointerDown(result.current.initiatePinch, 1, 0, 0);
+      pointerDown(result.current.initiatePinch, 2, 100, 0);
+      dispatch('pointermove', 2, 500, 0);
+
+      expect(result.current.currentWidth).toBe(320);
+      expect(result.current.currentHeight).toBe(180);
+    });
+
+    test('should hand over to single-pointer resizing when one finger lifts', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 1000,
+          pinch: true,
+        })
+      );
+
+      pointerDown(result.current.initiatePinch, 1, 100, 100);
+      pointerDown(result.current.initiatePinch, 2, 200, 100);
+      dispatch('pointermove', 2, 300, 100); // 2x -> 400 x 400
+
+      dispatch('pointerup', 1);
+      expect(result.current.isResizing).toBe(true);
+
+      // Remaining finger continues without a jump: +20 / +10 from where it was
+      dispatch('pointermove', 2, 320, 110);
+
+      expect(result.current.currentWidth).toBe(420);
+      expect(result.current.currentHeight).toBe(410);
+    });
+
+    test('should end the pinch on lost capture so later pinches still start', () => {
+      const onResizeCancel = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 1000,
+          pinch: true,
+          onResizeCancel,
+        })
+      );
+
+      pointerDown(result.current.initiatePinch, 1, 100, 100);
+      pointerDown(result.current.initiatePinch, 2, 200, 100);
+      dispatch('pointermove', 2, 250, 100);
+      expect(result.current.currentWidth).toBe(300);
+
+      dispatch('lostpointercapture', 1);
+
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.endReason).toBe('lostpointercapture');
+      expect(onResizeCancel).toHaveBeenCalledWith({ width: 200, height: 100 });
+      expect(mockElement.releasePointerCapture).toHaveBeenCalledWith(2);
+
+      // No stale pointers left behind: a fresh two-finger pinch works
+      pointerDown(result.current.initiatePinch, 3, 100, 100);
+      pointerDown(result.current.initiatePinch, 4, 200, 100);
+      expect(result.current.isResizing).toBe(true);
+      dispatch('pointermove', 4, 300, 100);
+      expect(result.current.currentWidth).toBe(400);
+    });
+
+    test('should keep the pinched size on window blur with interruptOutcome commit', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 1000,
+          pinch: true,
+          interruptOutcome: 'commit',
+          onDimensionsChange,
+        })
+      );
+
+      pointerDown(result.current.initiatePinch, 1, 100, 100);
+      pointerDown(result.current.initiatePinch, 2, 200, 100);
+      dispatch('pointermove', 2, 250, 100);
+
+      act(() => {
+        window.dispatchEvent(new Event('blur'));
+      });
+
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.endReason).toBe('blur');
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 300, height: 150 });
+    });
+
+    test('should revert the pinch on Escape', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 1000,
+          pinch: true,
+          onDimensionsChange,
+        })
+      );
+
+      pointerDown(result.current.initiatePinch, 1, 100, 100);
+      pointerDown(result.current.initiatePinch, 2, 200, 100);
+      dispatch('pointermove', 2, 250, 100);
+
+      act(() => {
+        window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      });
+
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.endReason).toBe('escape');
+
+      // The lifted fingers no longer resize or commit
+      dispatch('pointermove', 2, 300, 100);
+      dispatch('pointerup', 2);
+      expect(result.current.currentWidth).toBe(200);
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+    });
+
+    test('should not resize with a single pointer or when pinch is disabled', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 1000,
+        })
+      );
+
+      pointerDown(result.current.initiatePinch, 1, 100, 100);
+      pointerDown(result.current.initiatePinch, 2, 200, 100);
+      dispatch('pointermove', 2, 300, 100);
+
+      expect(mockElement.setPointerCapture).not.toHaveBeenCalled();
+      expect(result.current.currentWidth).toBe(200);
+    });
+
+    test('should leave mouse and pen pointers uncaptured so clicks reach children', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 50,
+          minHeight: 50,
+          maxWidth: 1000,
+          pinch: true,
+        })
+      );
+
+      act(() => {
+        ['mouse', 'pen'].forEach((pointerType, i) => {
+          result.current.initiatePinch({
+            preventDefault: jest.fn(),
+            stopPropagation: jest.fn(),
+            currentTarget: mockElement,
+            pointerId: i + 1,
+            pointerType,
+            pageX: 100 * (i + 1),
+            pageY: 100,
+          } as unknown as React.PointerEvent<HTMLElement>);
+        });
+      });
+      dispatch('pointermove', 2, 300, 100);
+
+      expect(mockElement.setPointerCapture).not.toHaveBeenCalled();
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.currentWidth).toBe(200);
+    });
+  });
+
+  describe('Move mode', () => {
+    const startMove = (initiate: (evt: React.PointerEvent<HTMLElement>) => void) => {
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 100,
+        pageY: 100,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        initiate(startEvent);
+      });
+    };
+
+    test('should move position with the pointer and notify on release', () => {
+      const onPositionChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          initialPosition: { x: 10, y: 20 },
+          onPositionChange,
+        })
+      );
+
+      startMove(result.current.initiateMove);
+      expect(result.current.isMoving).toBe(true);
+      expect(mockElement.setPointerCapture).toHaveBeenCalledWith(1);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 150, pageY: 130 }));
+      });
+
+      expect(result.current.position).toEqual({ x: 60, y: 50 });
+      expect(result.current.currentWidth).toBe(200);
+      expect(onPositionChange).not.toHaveBeenCalled();
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+
+      expect(result.current.isMoving).toBe(false);
+      expect(onPositionChange).toHaveBeenCalledWith({ x: 60, y: 50 });
+    });
+
+    test('should clamp position to moveBounds', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          moveBounds: { left: 0, top: 0, right: 800, bottom: 600 },
+        })
+      );
+
+      startMove(result.current.initiateMove);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 2000, pageY: -500 }));
+      });
+
+      expect(result.current.position).toEqual({ x: 600, y: 0 });
+    });
+
+    test('should revert position when a move is cancelled', () => {
+      const onResizeCancel = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onResizeCancel,
+        })
+      );
+
+      startMove(result.current.initiateMove);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 180, pageY: 160 }));
+      });
+
+      act(() => {
+        window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      });
+
+      expect(result.current.position).toEqual({ x: 0, y: 0 });
+      expect(result.current.isMoving).toBe(false);
+      expect(onResizeCancel).not.toHaveBeenCalled();
+    });
+
+    test('should keep the opposite edge anchored when resizing from the left/top', () => {
+      const onPositionChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          initialPosition: { x: 300, y: 300 },
+          onPositionChange,
+        })
+      );
+
+      startMove(result.current.initiateResize('top-left'));
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 50, pageY: 130 }));
+      });
+
+      // Width grew by 50 and height shrank by 30 - right/bottom edges stay at 500
+      expect(result.current.currentWidth).toBe(250);
+      expect(result.current.currentHeight).toBe(170);
+      expect(result.current.position).toEqual({ x: 250, y: 330 });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+
+      expect(onPositionChange).toHaveBeenCalledWith({ x: 250, y: 330 });
+    });
+
+    test('should stop a left/top resize at moveBounds', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          initialPosition: { x: 10, y: 20 },
+          moveBounds: { left: 0, top: 0, right: 800, bottom: 600 },
+        })
+      );
+
+      startMove(result.current.initiateResize('top-left'));
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 0, pageY: 0 }));
+      });
+
+      // The left/top edges stop at the bounds; the right/bottom edges stay put
+      expect(result.current.currentWidth).toBe(210);
+      expect(result.current.currentHeight).toBe(220);
+      expect(result.current.position).toEqual({ x: 0, y: 0 });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+
+      act(() => {
+        result.current.getHandleProps('left').onKeyDown({
+          key: 'ArrowLeft',
+          shiftKey: false,
+          currentTarget: mockElement,
+          preventDefault: jest.fn(),
+        } as unknown as React.KeyboardEvent<HTMLElement>);
+      });
+
+      expect(result.current.currentWidth).toBe(210);
+      expect(result.current.position).toEqual({ x: 0, y: 0 });
+    });
+
+    test('should not change position when resizing from the right/bottom', () => {
+      const onPositionChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          initialPosition: { x: 300, y: 300 },
+          onPositionChange,
+        })
+      );
+
+      startMove(result.current.initiateResize('bottom-right'));
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 150, pageY: 150 }));
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+
+      expect(result.current.position).toEqual({ x: 300, y: 300 });
+      expect(onPositionChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Cancellation', () => {
+    const startDrag = (initiate: (evt: React.PointerEvent<HTMLElement>) => void) => {
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        initiate(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+    };
+
+    test('should revert to pre-drag size when Escape is pressed', () => {
+      const onDimensionsChange = jest.fn();
+      const onResizeCancel = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onDimensionsChange,
+          onResizeCancel,
+        })
+      );
+
+      startDrag(result.current.initiateResize('right'));
+      expect(result.current.currentWidth).toBe(300);
+
+      act(() => {
+        window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      });
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.isResizing).toBe(false);
+      expect(mockElement.releasePointerCapture).toHaveBeenCalledWith(1);
+      expect(onResizeCancel).toHaveBeenCalledWith({ width: 200, height: 200 });
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+    });
+
+    test('should revert on pointercancel', () => {
+      const onResizeCancel = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onResizeCancel,
+        })
+      );
+
+      startDrag(result.current.initiateResize('right'));
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointercancel'));
+      });
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(onResizeCancel).toHaveBeenCalledTimes(1);
+    });
+
+    test('should revert via imperative cancelResize and detach listeners', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+        })
+      );
+
+      startDrag(result.current.initiateResize('right'));
+      removeEventListenerSpy.mockClear();
+
+      act(() => {
+        result.current.cancelResize();
+      });
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(removeEventListenerSpy).toHaveBeenCalledWith('pointermove', expect.any(Function));
+      expect(removeEventListenerSpy).toHaveBeenCalledWith('pointercancel', expect.any(Function));
+
+      // Further moves are ignored once cancelled
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 400 }));
+      });
+      expect(result.current.currentWidth).toBe(200);
+    });
+
+    test('should do nothing when no drag is active', () => {
+      const onResizeCancel = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onResizeCancel,
+        })
+      );
+
+      act(() => {
+        result.current.cancelResize();
+        window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      });
+
+      expect(onResizeCancel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Undo/redo history', () => {
+    const dragRightTo = (
+      initiate: (evt: React.PointerEvent<HTMLElement>) => void,
+      pageX: number
+    ) => {
+      act(() => {
+        initiate({
+          preventDefault: jest.fn(),
+          stopPropagation: jest.fn(),
+          currentTarget: mockElement,
+          pointerId: 1,
+          pageX: 200,
+        } as unknown as React.PointerEvent<HTMLElement>);
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX }));
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+    };
+
+    test('should undo and redo committed drags with a reason flag', () => {
+      const onDimensionsChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          history: true,
+          onDimensionsChange,
+        })
+      );
+
+      expect(result.current.canUndo).toBe(false);
+
+      dragRightTo(result.current.initiateResize('right'), 250);
+      dragRightTo(result.current.initiateResize('right'), 250); // 250 -> 300
+
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.canUndo).toBe(true);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.currentWidth).toBe(250);
+      expect(result.current.canRedo).toBe(true);
+      expect(onDimensionsChange).toHaveBeenLastCalledWith({ width: 250, height: 200 }, { reason: 'undo' });
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.canUndo).toBe(false);
+
+      act(() => {
+        result.current.redo();
+      });
+
+      expect(result.current.currentWidth).toBe(250);
+      expect(onDimensionsChange).toHaveBeenLastCalledWith({ width: 250, height: 200 }, { reason: 'redo' });
+    });
+
+    test('should record setDimensions and clear redo on a new commit', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          history: true,
+        })
+      );
+
+      act(() => {
+        result.current.setDimensions({ width: 400, height: 300 });
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.setDimensions({ width: 350, height: 200 });
+      });
+
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    test('should drop the oldest entries beyond historyLimit', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          history: true,
+          historyLimit: 2,
+        })
+      );
+
+      act(() => {
+        result.current.setDimensions({ width: 210, height: 200 });
+      });
+      act(() => {
+        result.current.setDimensions({ width: 220, height: 200 });
+      });
+      act(() => {
+        result.current.setDimensions({ width: 230, height: 200 });
+      });
+
+      act(() => {
+        result.current.undo();
+        result.current.undo();
+        result.current.undo();
+      });
+
+      // Only two steps were kept: 230 -> 220 -> 210
+      expect(result.current.currentWidth).toBe(210);
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    test('should not record history unless enabled', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+        })
+      );
+
+      dragRightTo(result.current.initiateResize('right'), 300);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.currentWidth).toBe(300);
+    });
+  });
+
+  describe('Persistence', () => {
+    test('should restore persisted dimensions on mount', () => {
+      const storage = createMemoryStorageAdapter();
+      storage.setItem('panel', JSON.stringify({ version: PERSIST_VERSION, width: 320, height: 240 }));
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          persistKey: 'panel',
+          storage,
+        })
+      );
+
+      expect(result.current.currentWidth).toBe(320);
+      expect(result.current.currentHeight).toBe(240);
+    });
+
+    test('should render the initial size first so hydration matches the server', () => {
+      const storage = createMemoryStorageAdapter();
+      storage.setItem('panel', JSON.stringify({ version: PERSIST_VERSION, width: 320, height: 240 }));
+      const renderedWidths: number[] = [];
+
+      const { result } = renderHook(() => {
+        const state = useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          persistKey: 'panel',
+          storage,
+        });
+        renderedWidths.push(state.currentWidth);
+        return state;
+      });
+
+      // The server can't read storage, so the first client render must not either
+      expect(renderedWidths[0]).toBe(200);
+      expect(result.current.currentWidth).toBe(320);
+    });
+
+    test('should re-clamp restored dimensions to current bounds', () => {
+      const storage = createMemoryStorageAdapter();
+      storage.setItem('panel', JSON.stringify({ version: PERSIST_VERSION, width: 900, height: 50 }));
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          persistKey: 'panel',
+          storage,
+        })
+      );
+
+      expect(result.current.currentWidth).toBe(500);
+      expect(result.current.currentHeight).toBe(100);
+    });
+
+    test('should fall back to initial dimensions when storage is corrupted', () => {
+      const storage = createMemoryStorageAdapter();
+      storage.setItem('panel', 'not json');
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 150,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          persistKey: 'panel',
+          storage,
+        })
+      );
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.currentHeight).toBe(150);
+    });
+
+    test('should write only on drag release', () => {
+      const storage = createMemoryStorageAdapter();
+      const setItemSpy = jest.spyOn(storage, 'setItem');
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          live: true,
+          persistKey: 'panel',
+          storage,
+        })
+      );
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 250 }));
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 280 }));
+      });
+
+      expect(setItemSpy).not.toHaveBeenCalled();
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+
+      expect(setItemSpy).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(storage.getItem('panel') as string)).toEqual({
+        version: PERSIST_VERSION,
+        width: 280,
+        height: 200,
+      });
+    });
+  });
+
+  describe('Inertia', () => {
+    let now: number;
+    let rafCallbacks: Map<number, FrameRequestCallback>;
+    let nextRafId: number;
+
+    // Distance a fling travels per px/ms of release velocity at the default decay
+    const tau = 16 / -Math.log(0.95);
+
+    const runFrame = (timestamp: number) => {
+      now = timestamp;
+      const callbacks = [...rafCallbacks.values()];
+      rafCallbacks.clear();
+      act(() => {
+        callbacks.forEach((cb) => cb(timestamp));
+      });
+    };
+
+    const startEvent = {
+      preventDefault: jest.fn(),
+      stopPropagation: jest.fn(),
+      currentTarget: null as unknown as HTMLElement,
+      pointerId: 1,
+      pageX: 200,
+    };
+
+    // Drag the right edge by `step` px every 16ms, three times, then release
+    const flick = (initiate: (evt: React.PointerEvent<HTMLElement>) => void, step: number) => {
+      act(() => {
+        initiate({ ...startEvent, currentTarget: mockElement } as unknown as React.PointerEvent<HTMLElement>);
+      });
+      [1, 2, 3].forEach((i) => {
+        now = (i - 1) * 16;
+        act(() => {
+          mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 200 + step * i }));
+        });
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: 200 + step * 3 }));
+      });
+    };
+
+    beforeEach(() => {
+      now = 0;
+      rafCallbacks = new Map();
+      nextRafId = 1;
+      jest.spyOn(performance, 'now').mockImplementation(() => now);
+      jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb: FrameRequestCallback) => {
+        rafCallbacks.set(nextRafId, cb);
+        return nextRafId++;
+      });
+      jest.spyOn(window, 'cancelAnimationFrame').mockImplementation((id: number) => {
+        rafCallbacks.delete(id);
+      });
+    });
+
+    test('should keep resizing after a fling and commit once it settles', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          inertia: true,
+          onDimensionsChange,
+        })
+      );
+
+      flick(result.current.initiateResize('right'), 30);
+
+      // Released at 290px moving 60px / 32ms - nothing committed yet
+      expect(result.current.currentWidth).toBe(290);
+      expect(result.current.isResizing).toBe(true);
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+
+      runFrame(100);
+      expect(result.current.currentWidth).toBeGreaterThan(290);
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+
+      runFrame(5000);
+      const expected = 290 + (60 / 32) * tau;
+      expect(result.current.currentWidth).toBeCloseTo(expected);
+      expect(result.current.isResizing).toBe(false);
+      expect(onDimensionsChange).toHaveBeenCalledTimes(1);
+      expect(rafCallbacks.size).toBe(0);
+    });
+
+    test('should settle on the nearest snap point', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          snapPoints: [400, 900],
+          inertia: true,
+        })
+      );
+
+      // Projected end (~875px) is far outside snapDistance of 900, but a fling always lands on a target
+      flick(result.current.initiateResize('right'), 30);
+      runFrame(5000);
+
+      expect(result.current.currentWidth).toBe(900);
+    });
+
+    test('should stop a fling from the left edge at moveBounds', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          initialPosition: { x: 100, y: 0 },
+          moveBounds: { left: 0, top: 0, right: 1000, bottom: 1000 },
+          inertia: true,
+        })
+      );
+
+      flick(result.current.initiateResize('left'), -30);
+      expect(result.current.currentWidth).toBe(290);
+
+      runFrame(5000);
+
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.position).toEqual({ x: 0, y: 0 });
+    });
+
+    test('should collapse when flung past the collapse threshold', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 150,
+          minHeight: 100,
+          maxWidth: 1000,
+          collapsible: true,
+          inertia: true,
+        })
+      );
+
+      flick(result.current.initiateResize('right'), -20);
+      // Held at minWidth while dragging
+      expect(result.current.currentWidth).toBe(150);
+
+      runFrame(5000);
+
+      expect(result.current.currentWidth).toBe(0);
+      expect(result.current.isCollapsed).toBe(true);
+    });
+
+    test('should commit immediately when released without velocity', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          inertia: true,
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')({ ...startEvent, currentTarget: mockElement } as unknown as React.PointerEvent<HTMLElement>);
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+
+      // Pointer rests before release
+      now = 500;
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: 300 }));
+      });
+
+      expect(result.current.isResizing).toBe(false);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 300, height: 200 });
+      expect(rafCallbacks.size).toBe(0);
+    });
+
+    test('should commit a running fling when a new drag starts', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          inertia: true,
+          onDimensionsChange,
+        })
+      );
+
+      flick(result.current.initiateResize('right'), 30);
+      runFrame(100);
+      const midFling = result.current.currentWidth;
+
+      act(() => {
+        result.current.initiateResize('right')({ ...startEvent, currentTarget: mockElement } as unknown as React.PointerEvent<HTMLElement>);
+      });
+
+      expect(onDimensionsChange).toHaveBeenCalledTimes(1);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: midFling, height: 200 });
+    });
+
+    test('should commit a running fling before a programmatic change and not overwrite it', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          inertia: true,
+          onDimensionsChange,
+        })
+      );
+
+      flick(result.current.initiateResize('right'), 30);
+      runFrame(100);
+      const midFling = result.current.currentWidth;
+
+      act(() => {
+        result.current.animateTo({ width: 500, height: 200 }, { duration: 0 });
+      });
+      runFrame(5000);
+
+      expect(result.current.currentWidth).toBe(500);
+      expect(result.current.isResizing).toBe(false);
+      expect(onDimensionsChange.mock.calls).toEqual([[{ width: midFling, height: 200 }], [{ width: 500, height: 200 }]]);
+    });
+
+    test('should undo the whole drag when undo is called mid-fling', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          inertia: true,
+          history: true,
+        })
+      );
+
+      flick(result.current.initiateResize('right'), 30);
+      runFrame(100);
+
+      act(() => {
+        result.current.undo();
+      });
+      runFrame(5000);
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.canRedo).toBe(true);
+    });
+
+    test.each([
+      ['cancelResize', (cancel: () => void) => cancel()],
+      ['Escape', () => window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))],
+    ])('should revert a running fling on %s', (_, abort) => {
+      const onDimensionsChange = jest.fn();
+      const onResizeCancel = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          inertia: true,
+          onDimensionsChange,
+          onResizeCancel,
+        })
+      );
+
+      flick(result.current.initiateResize('right'), 30);
+      runFrame(100);
+
+      act(() => {
+        abort(result.current.cancelResize);
+      });
+      runFrame(5000);
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.isResizing).toBe(false);
+      expect(onResizeCancel).toHaveBeenCalledWith({ width: 200, height: 200 });
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+      expect(rafCallbacks.size).toBe(0);
+    });
+  });
+
+  describe('Animated transitions', () => {
+    let rafCallbacks: Map<number, FrameRequestCallback>;
+    let nextRafId: number;
+
+    const runFrame = (timestamp: number) => {
+      const callbacks = [...rafCallbacks.values()];
+      rafCallbacks.clear();
+      act(() => {
+        callbacks.forEach((cb) => cb(timestamp));
+      });
+    };
+
+    beforeEach(() => {
+      rafCallbacks = new Map();
+      nextRafId = 1;
+      jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb: FrameRequestCallback) => {
+        rafCallbacks.set(nextRafId, cb);
+        return nextRafId++;
+      });
+      jest.spyOn(window, 'cancelAnimationFrame').mockImplementation((id: number) => {
+        rafCallbacks.delete(id);
+      });
+    });
+
+    test('should tween to the target and notify once on completion', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.animateTo({ width: 400, height: 300 }, { duration: 200, easing: 'linear' });
+      });
+      expect(result.current.isAnimating).toBe(true);
+
+      runFrame(1000);
+      runFrame(1100);
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.currentHeight).toBe(200);
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+
+      runFrame(1200);
+      expect(result.current.currentWidth).toBe(400);
+      expect(result.current.currentHeight).toBe(300);
+      expect(result.current.isAnimating).toBe(false);
+      expect(onDimensionsChange).toHaveBeenCalledTimes(1);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 400, height: 300 });
+      expect(rafCallbacks.size).toBe(0);
+    });
+
+    test('should constrain the animation target', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+        })
+      );
+
+      act(() => {
+        result.current.animateTo({ width: 900, height: 50 }, { duration: 100 });
+      });
+      runFrame(0);
+      runFrame(100);
+
+      expect(result.current.currentWidth).toBe(500);
+      expect(result.current.currentHeight).toBe(100);
+    });
+
+    test('should interrupt a running animation from its current size', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.animateTo({ width: 400, height: 100 }, { duration: 200, easing: 'linear' });
+      });
+      runFrame(0);
+      runFrame(100);
+      expect(result.current.currentWidth).toBe(300);
+
+      act(() => {
+        result.current.animateTo({ width: 200, height: 100 }, { duration: 100, easing: 'linear' });
+      });
+      runFrame(200);
+      runFrame(250);
+      expect(result.current.currentWidth).toBe(250);
+
+      runFrame(300);
+      expect(result.current.currentWidth).toBe(200);
+      expect(onDimensionsChange).toHaveBeenCalledTimes(1);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 200, height: 100 });
+    });
+
+    test('should stop animating when a drag starts', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.animateTo({ width: 400, height: 100 }, { duration: 200, easing: 'linear' });
+      });
+      runFrame(0);
+      runFrame(100);
+
+      const startEvent = {
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 300,
+      } as unknown as React.PointerEvent<HTMLElement>;
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent);
+      });
+
+      expect(result.current.isAnimating).toBe(false);
+      runFrame(200);
+      expect(result.current.currentWidth).toBe(300);
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+    });
+
+    test('should settle a spring animation on the target', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.animateTo({ width: 400, height: 100 }, { easing: { type: 'spring' } });
+      });
+
+      for (let t = 0; t <= 3000 && rafCallbacks.size > 0; t += 16) {
+        runFrame(t);
+      }
+
+      expect(result.current.currentWidth).toBe(400);
+      expect(result.current.isAnimating).toBe(false);
+      expect(onDimensionsChange).toHaveBeenCalledTimes(1);
+    });
+
+    test('should jump straight to the target when reduced motion is preferred', () => {
+      const onDimensionsChange = jest.fn();
+      Object.defineProperty(window, 'matchMedia', {
+        configurable: true,
+        value: jest.fn().mockReturnValue({ matches: true }),
+      });
+
+      try {
+        const { result } = renderHook(() =>
+          useDragResize({
+            initialWidth: 200,
+            initialHeight: 100,
+            minWidth: 100,
+            minHeight: 100,
+            maxWidth: 500,
+            onDimensionsChange,
+          })
+        );
+
+        act(() => {
+          result.current.animateTo({ width: 400, height: 100 });
+        });
+
+        expect(result.current.currentWidth).toBe(400);
+        expect(result.current.isAnimating).toBe(false);
+        expect(onDimensionsChange).toHaveBeenCalledTimes(1);
+        expect(rafCallbacks.size).toBe(0);
+      } finally {
+        delete (window as { matchMedia?: unknown }).matchMedia;
+      }
+    });
+  });
+
+  describe('Controlled mode', () => {
+    const startEvent = () =>
+      ({
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+      }) as unknown as React.PointerEvent<HTMLElement>;
+
+    test('should render controlled values and follow prop changes', () => {
+      const onChange = jest.fn();
+      const { result, rerender } = renderHook(
+        ({ width }) =>
+          useDragResize({
+            width,
+            height: 100,
+            minWidth: 100,
+            minHeight: 100,
+            maxWidth: 500,
+            onChange,
+          }),
+        { initialProps: { width: 200 } }
+      );
+
+      expect(result.current.currentWidth).toBe(200);
+
+      rerender({ width: 350 });
+      expect(result.current.currentWidth).toBe(350);
+
+      // A drag starts from the latest controlled size
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 150 }));
+      });
+
+      expect(onChange).toHaveBeenCalledWith({ width: 300, height: 100 });
+      // The parent didn't apply it, so the controlled value still renders
+      expect(result.current.currentWidth).toBe(350);
+    });
+
+    test('should report every change through onChange and render the parent state', () => {
+      const onChange = jest.fn();
+      const { result } = renderHook(() => {
+        const [size, setSize] = useState({ width: 200, height: 100 });
+        return useDragResize({
+          ...size,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onChange: (d) => {
+            onChange(d);
+            setSize(d);
+          },
+        });
+      });
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 250 }));
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+
+      expect(onChange).toHaveBeenCalledTimes(2);
+      expect(onChange).toHaveBeenLastCalledWith({ width: 300, height: 100 });
+      expect(result.current.currentWidth).toBe(300);
+    });
+
+    test('should keep the controlled size when the parent rejects a change', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          width: 200,
+          height: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onChange: () => {},
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: 300 }));
+      });
+
+      expect(result.current.currentWidth).toBe(200);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 200, height: 100 });
+    });
+
+    test('should warn when switching between controlled and uncontrolled', () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const { rerender } = renderHook(
+        ({ width }: { width?: number }) =>
+          useDragResize({
+            width,
+            initialWidth: 200,
+            minWidth: 100,
+            minHeight: 100,
+          }),
+        { initialProps: { width: 200 } as { width?: number } }
+      );
+
+      expect(consoleError).not.toHaveBeenCalled();
+
+      rerender({ width: undefined });
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('a controlled size to be uncontrolled'));
+
+      rerender({ width: 300 });
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('an uncontrolled size to be controlled'));
+    });
+  });
+
+  describe('Auto-scroll', () => {
+    let container: HTMLDivElement;
+    let rafCallbacks: Map<number, FrameRequestCallback>;
+    let nextRafId: number;
+
+    const runFrame = () => {
+      const callbacks = [...rafCallbacks.values()];
+      rafCallbacks.clear();
+      act(() => {
+        callbacks.forEach((cb) => cb(0));
+      });
+    };
+
+    const startEvent = () =>
+      ({
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 400,
+      }) as unknown as React.PointerEvent<HTMLElement>;
+
+    beforeEach(() => {
+      container = document.createElement('div');
+      container.style.overflowX = 'auto';
+      container.appendChild(mockElement);
+      document.body.appendChild(container);
+      container.getBoundingClientRect = () =>
+        ({ left: 0, right: 500, top: 0, bottom: 300, width: 500, height: 300, x: 0, y: 0 }) as DOMRect;
+
+      rafCallbacks = new Map();
+      nextRafId = 1;
+      jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb: FrameRequestCallback) => {
+        rafCallbacks.set(nextRafId, cb);
+        return nextRafId++;
+      });
+      jest.spyOn(window, 'cancelAnimationFrame').mockImplementation((id: number) => {
+        rafCallbacks.delete(id);
+      });
+    });
+
+    afterEach(() => {
+      container.remove();
+    });
+
+    test('should scroll the container near its edge and add the scrolled distance to the resize', () => {
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          autoScroll: true,
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+
+      // 30px into the 40px edge zone: 3/4 of the default 20px/frame
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 490 }));
+      });
+      expect(result.current.currentWidth).toBe(290);
+
+      runFrame();
+      expect(container.scrollLeft).toBe(15);
+      expect(result.current.currentWidth).toBe(305);
+
+      runFrame();
+      expect(container.scrollLeft).toBe(30);
+      expect(result.current.currentWidth).toBe(320);
+
+      // Leaving the edge zone stops scrolling; the scrolled distance still counts
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+      runFrame();
+      expect(container.scrollLeft).toBe(30);
+      expect(rafCallbacks.size).toBe(0);
+      expect(result.current.currentWidth).toBe(130);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: 300 }));
+      });
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 130, height: 100 });
+    });
+
+    test('should not scroll unless enabled', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 490 }));
+      });
+      runFrame();
+
+      expect(container.scrollLeft).toBe(0);
+      expect(result.current.currentWidth).toBe(290);
+    });
+
+    test('should only scroll along the axes the handle resizes', () => {
+      container.style.overflowY = 'auto';
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 100,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 1000,
+          autoScroll: true,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      // Near the bottom edge, but a right handle only resizes horizontally
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 420, pageY: 290 }));
+      });
+      runFrame();
+
+      expect(container.scrollTop).toBe(0);
+      expect(rafCallbacks.size).toBe(0);
+    });
+  });
+
+  describe('Preview mode', () => {
+    const startEvent = (pageX = 200) =>
+      ({
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX,
+      }) as unknown as React.PointerEvent<HTMLElement>;
+
+    test('should expose the drag result as a preview and commit it on release', () => {
+      const onChange = jest.fn();
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          preview: true,
+          onChange,
+          onDimensionsChange,
+        })
+      );
+
+      expect(result.current.previewDimensions).toBeNull();
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      expect(result.current.previewDimensions).toEqual({ width: 200, height: 200 });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+
+      expect(result.current.previewDimensions).toEqual({ width: 300, height: 200 });
+      expect(result.current.currentWidth).toBe(200);
+      expect(onChange).not.toHaveBeenCalled();
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: 300 }));
+      });
+
+      expect(result.current.previewDimensions).toBeNull();
+      expect(result.current.currentWidth).toBe(300);
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith({ width: 300, height: 200 });
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 300, height: 200 });
+    });
+
+    test('should skip live notifications while previewing', () => {
+      const onResize = jest.fn();
+      const onDimensionsChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          preview: true,
+          live: true,
+          onResize,
+          onDimensionsChange,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 250 }));
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+
+      expect(onResize).toHaveBeenLastCalledWith(expect.objectContaining({ dimensions: { width: 300, height: 200 } }));
+      expect(onDimensionsChange).not.toHaveBeenCalled();
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: 300 }));
+      });
+
+      expect(onDimensionsChange).toHaveBeenCalledTimes(1);
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 300, height: 200 });
+    });
+
+    test('should apply snapping and constraints to the preview', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 400,
+          snapStep: 50,
+          preview: true,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 246 }));
+      });
+      expect(result.current.previewDimensions?.width).toBe(250);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 900 }));
+      });
+      expect(result.current.previewDimensions?.width).toBe(400);
+    });
+
+    test('should discard the preview on cancel', () => {
+      const onChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          preview: true,
+          onChange,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+      act(() => {
+        window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      });
+
+      expect(result.current.previewDimensions).toBeNull();
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.currentWidth).toBe(200);
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    test('should preview the anchored position when resizing from the left', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          initialPosition: { x: 100, y: 0 },
+          preview: true,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('left')(startEvent(100));
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 50 }));
+      });
+
+      expect(result.current.previewPosition).toEqual({ x: 50, y: 0 });
+      expect(result.current.position).toEqual({ x: 100, y: 0 });
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: 50 }));
+      });
+
+      expect(result.current.position).toEqual({ x: 50, y: 0 });
+      expect(result.current.currentWidth).toBe(250);
+    });
+  });
+
+  describe('Logical directions', () => {
+    const styled = (direction: string, writingMode?: string) => {
+      const el = document.createElement('div');
+      el.style.direction = direction;
+      if (writingMode) el.style.setProperty('writing-mode', writingMode);
+      return el;
+    };
+
+    test.each([
+      ['ltr', undefined, 'inline-start', 'left'],
+      ['ltr', undefined, 'inline-end', 'right'],
+      ['rtl', undefined, 'inline-start', 'right'],
+      ['rtl', undefined, 'inline-end', 'left'],
+      ['rtl', undefined, 'block-end', 'bottom'],
+      ['ltr', 'vertical-rl', 'inline-end', 'bottom'],
+      ['ltr', 'vertical-rl', 'block-start', 'right'],
+      ['rtl', 'vertical-rl', 'inline-start', 'bottom'],
+      ['ltr', 'vertical-lr', 'block-end', 'right'],
+      ['ltr', 'sideways-lr', 'inline-start', 'bottom'],
+    ] as const)('%s %s: %s resolves to %s', (dir, writingMode, logical, physical) => {
+      expect(resolveLogicalDirection(logical, styled(dir, writingMode))).toBe(physical);
+    });
+
+    test('should pass physical directions through and assume LTR without an element', () => {
+      expect(resolveLogicalDirection('top-left', styled('rtl'))).toBe('top-left');
+      expect(resolveLogicalDirection('inline-end', null)).toBe('right');
+    });
+
+    test('should grow an inline-end handle leftwards in RTL', () => {
+      mockElement.style.direction = 'rtl';
+      const onResizeStart = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onResizeStart,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('inline-end')({
+          preventDefault: jest.fn(),
+          stopPropagation: jest.fn(),
+          currentTarget: mockElement,
+          pointerId: 1,
+          pageX: 500,
+          pageY: 0,
+        } as unknown as React.PointerEvent<HTMLElement>);
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 450 }));
+      });
+
+      expect(result.current.currentWidth).toBe(250);
+      expect(onResizeStart).toHaveBeenCalledWith(expect.objectContaining({ direction: 'left' }));
+    });
+
+    test('should resolve keyboard steps and ARIA orientation', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          maxHeight: 500,
+        })
+      );
+
+      // Block-end of a vertical-rl element is its left edge: ArrowLeft grows the width
+      act(() => {
+        result.current.getHandleProps('block-end').onKeyDown({
+          key: 'ArrowLeft',
+          shiftKey: false,
+          preventDefault: jest.fn(),
+          currentTarget: styled('ltr', 'vertical-rl'),
+        } as unknown as React.KeyboardEvent<HTMLElement>);
+      });
+      expect(result.current.currentWidth).toBe(210);
+
+      expect(result.current.getHandleProps('inline-end')['aria-orientation']).toBe('vertical');
+      act(() => {
+        result.current.ref(styled('ltr', 'vertical-rl'));
+      });
+      expect(result.current.getHandleProps('inline-end')['aria-orientation']).toBe('horizontal');
+    });
+  });
+
+  describe('Interruption recovery', () => {
+    const startEvent = () =>
+      ({
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+        currentTarget: mockElement,
+        pointerId: 1,
+        pageX: 200,
+        pageY: 0,
+      }) as unknown as React.PointerEvent<HTMLElement>;
+
+    test('should revert when pointer capture is lost', () => {
+      const onResizeCancel = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onResizeCancel,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+      act(() => {
+        mockElement.dispatchEvent(new Event('lostpointercapture'));
+      });
+
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.currentWidth).toBe(200);
+      expect(result.current.endReason).toBe('lostpointercapture');
+      expect(onResizeCancel).toHaveBeenCalledWith({ width: 200, height: 200 });
+
+      // Listeners are gone - later moves do nothing
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 400 }));
+      });
+      expect(result.current.currentWidth).toBe(200);
+    });
+
+    test('should commit on window blur with interruptOutcome "commit"', () => {
+      const onDimensionsChange = jest.fn();
+      const onResizeEnd = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          interruptOutcome: 'commit',
+          onDimensionsChange,
+          onResizeEnd,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+      act(() => {
+        window.dispatchEvent(new Event('blur'));
+      });
+
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.endReason).toBe('blur');
+      expect(onDimensionsChange).toHaveBeenCalledWith({ width: 300, height: 200 });
+      expect(onResizeEnd).toHaveBeenCalledWith(expect.objectContaining({ endReason: 'blur' }));
+    });
+
+    test('should commit an interrupted move with interruptOutcome "commit"', () => {
+      const onPositionChange = jest.fn();
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          interruptOutcome: 'commit',
+          onPositionChange,
+        })
+      );
+
+      act(() => {
+        result.current.initiateMove(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 250, pageY: 30 }));
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointercancel'));
+      });
+
+      expect(result.current.isMoving).toBe(false);
+      expect(result.current.position).toEqual({ x: 50, y: 30 });
+      expect(result.current.endReason).toBe('pointercancel');
+      expect(onPositionChange).toHaveBeenLastCalledWith({ x: 50, y: 30 });
+    });
+
+    test('should not treat the capture release on pointerup as an interruption', () => {
+      const onResizeCancel = jest.fn();
+      // Browsers fire lostpointercapture when capture is released
+      mockElement.releasePointerCapture = jest.fn(() => {
+        mockElement.dispatchEvent(new Event('lostpointercapture'));
+      });
+
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          maxWidth: 500,
+          onResizeCancel,
+        })
+      );
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup', { pageX: 300 }));
+      });
+
+      expect(result.current.currentWidth).toBe(300);
+      expect(result.current.endReason).toBe('pointerup');
+      expect(onResizeCancel).not.toHaveBeenCalled();
+    });
+
+    test('should report escape and programmatic cancels', () => {
+      const { result } = renderHook(() =>
+        useDragResize({
+          initialWidth: 200,
+          initialHeight: 200,
+          minWidth: 100,
+          minHeight: 100,
+          interruptOutcome: 'commit',
+        })
+      );
+
+      expect(result.current.endReason).toBeNull();
+
+      // Escape always reverts, whatever interruptOutcome says
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 300 }));
+      });
+      act(() => {
+        window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      });
+      expect(result.current.endReason).toBe('escape');
+      expect(result.current.currentWidth).toBe(200);
+
+      act(() => {
+        result.current.initiateResize('right')(startEvent());
+      });
+      act(() => {
+        result.current.cancelResize();
+      });
+      expect(result.current.endReason).toBe('cancel');
     });
   });
 
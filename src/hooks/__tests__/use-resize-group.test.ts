@@ -0,0 +1,281 @@
+import { renderHook, act } from '@testing-library/react';
+import { useResizeGroup } from '../use-resize-group';
+
+describe('useResizeGroup', () => {
+  let mockElement: HTMLDivElement;
+
+  beforeEach(() => {
+    mockElement = document.createElement('div');
+    mockElement.setPointerCapture = jest.fn();
+    mockElement.releasePointerCapture = jest.fn();
+
+    // Mock RAF to execute immediately
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 1;
+    });
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const startDrag = (initiate: (evt: React.PointerEvent<HTMLElement>) => void, pageX = 0, pageY = 0) => {
+    const startEvent = {
+      preventDefault: jest.fn(),
+      stopPropagation: jest.fn(),
+      currentTarget: mockElement,
+      pointerId: 1,
+      pageX,
+      pageY,
+    } as unknown as React.PointerEvent<HTMLElement>;
+
+    act(() => {
+      initiate(startEvent);
+    });
+  };
+
+  describe('Initial sizes', () => {
+    test('should split remaining space evenly between panes without initialSize', () => {
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 1000,
+          panes: [{ initialSize: 200 }, {}, {}],
+        })
+      );
+
+      expect(result.current.sizes).toEqual([200, 400, 400]);
+    });
+
+    test('should respect min/max when fitting initial sizes', () => {
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 600,
+          panes: [{ initialSize: 50, minSize: 100 }, { maxSize: 300 }, {}],
+        })
+      );
+
+      const [a, b, c] = result.current.sizes;
+      expect(a).toBeGreaterThanOrEqual(100);
+      expect(b).toBeLessThanOrEqual(300);
+      expect(a + b + c).toBeCloseTo(600);
+    });
+  });
+
+  describe('Divider dragging', () => {
+    test('should grow one pane and shrink its neighbour', () => {
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 900,
+          panes: [{}, {}, {}],
+        })
+      );
+
+      startDrag(result.current.initiateResize(0), 300);
+      expect(result.current.isResizing).toBe(true);
+      expect(result.current.activeDivider).toBe(0);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 350 }));
+      });
+
+      expect(result.current.sizes).toEqual([350, 250, 300]);
+    });
+
+    test('should cascade overflow to the next pane when a neighbour hits its minimum', () => {
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 900,
+          panes: [{}, { minSize: 200 }, { minSize: 100 }],
+        })
+      );
+
+      startDrag(result.current.initiateResize(0), 300);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 600 }));
+      });
+
+      // Pane 1 stops at 200, the remaining 200px comes out of pane 2
+      expect(result.current.sizes).toEqual([600, 200, 100]);
+
+      // Nothing left to take - further movement is absorbed
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 900 }));
+      });
+
+      expect(result.current.sizes).toEqual([600, 200, 100]);
+    });
+
+    test('should stop growing a pane at its maximum', () => {
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 600,
+          panes: [{ maxSize: 350 }, {}],
+        })
+      );
+
+      startDrag(result.current.initiateResize(0), 300);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 500 }));
+      });
+
+      expect(result.current.sizes).toEqual([350, 250]);
+    });
+
+    test('should drag along y in vertical orientation', () => {
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 400,
+          orientation: 'vertical',
+          panes: [{}, {}],
+        })
+      );
+
+      startDrag(result.current.initiateResize(0), 0, 200);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 500, pageY: 150 }));
+      });
+
+      expect(result.current.sizes).toEqual([150, 250]);
+    });
+
+    test('should call onSizesChange on release and clean up', () => {
+      const onSizesChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 600,
+          panes: [{}, {}],
+          onSizesChange,
+        })
+      );
+
+      startDrag(result.current.initiateResize(0), 300);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 320 }));
+      });
+
+      expect(onSizesChange).not.toHaveBeenCalled();
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointerup'));
+      });
+
+      expect(onSizesChange).toHaveBeenCalledWith([320, 280]);
+      expect(result.current.isResizing).toBe(false);
+      expect(mockElement.releasePointerCapture).toHaveBeenCalledWith(1);
+    });
+
+    test('should end the drag and revert when the pointer is cancelled', () => {
+      const onSizesChange = jest.fn();
+
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 600,
+          panes: [{}, {}],
+          live: true,
+          onSizesChange,
+        })
+      );
+
+      startDrag(result.current.initiateResize(0), 300);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 350 }));
+      });
+
+      expect(onSizesChange).toHaveBeenLastCalledWith([350, 250]);
+
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointercancel'));
+      });
+
+      expect(result.current.isResizing).toBe(false);
+      expect(result.current.sizes).toEqual([300, 300]);
+      expect(onSizesChange).toHaveBeenLastCalledWith([300, 300]);
+
+      // Listeners are gone: later moves don't resize
+      act(() => {
+        mockElement.dispatchEvent(new PointerEvent('pointermove', { pageX: 400 }));
+      });
+      expect(result.current.sizes).toEqual([300, 300]);
+    });
+  });
+
+  describe('Total size changes', () => {
+    test('should re-fit sizes proportionally when totalSize changes', () => {
+      const { result, rerender } = renderHook(
+        ({ totalSize }) =>
+          useResizeGroup({
+            totalSize,
+            panes: [{ initialSize: 200 }, {}],
+          }),
+        { initialProps: { totalSize: 800 } }
+      );
+
+      expect(result.current.sizes).toEqual([200, 600]);
+
+      rerender({ totalSize: 400 });
+
+      expect(result.current.sizes).toEqual([100, 300]);
+    });
+
+    test('should lay out initial sizes once a zero total is first measured', () => {
+      const { result, rerender } = renderHook(
+        ({ totalSize }) =>
+          useResizeGroup({
+            totalSize,
+            panes: [
+              { initialSize: 240, minSize: 160, maxSize: 400 },
+              { minSize: 300 },
+              { initialSize: 320, minSize: 200 },
+            ],
+          }),
+        { initialProps: { totalSize: 0 } }
+      );
+
+      rerender({ totalSize: 1200 });
+
+      expect(result.current.sizes).toEqual([240, 640, 320]);
+    });
+
+    test('should re-fit sizes when a pane is added or removed', () => {
+      const { result, rerender } = renderHook(
+        ({ panes }) => useResizeGroup({ totalSize: 900, panes }),
+        { initialProps: { panes: [{}, {}] as { initialSize?: number }[] } }
+      );
+
+      expect(result.current.sizes).toEqual([450, 450]);
+
+      rerender({ panes: [{}, {}, { initialSize: 300 }] });
+
+      expect(result.current.sizes).toHaveLength(3);
+      expect(result.current.sizes.reduce((a, b) => a + b, 0)).toBeCloseTo(900);
+      expect(result.current.sizes[2]).toBeCloseTo(225);
+
+      rerender({ panes: [{}, {}] });
+
+      expect(result.current.sizes).toEqual([450, 450]);
+    });
+
+    test('should re-fit manual sizes to the total', () => {
+      const { result } = renderHook(() =>
+        useResizeGroup({
+          totalSize: 500,
+          panes: [{}, {}],
+        })
+      );
+
+      act(() => {
+        result.current.setSizes([100, 100]);
+      });
+
+      expect(result.current.sizes).toEqual([250, 250]);
+    });
+  });
+});
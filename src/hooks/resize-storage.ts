@@ -0,0 +1,135 @@
+import type { ElementDimensions, SizeUnit } from "./use-drag-resize";
+
+/**
+ * Minimal synchronous key/value store used to persist resize state.
+ *
+ * Mirrors the subset of the Web Storage API the hooks need, so any sync store
+ * (a cookie wrapper, an in-memory cache, a test double) can be plugged in.
+ */
+export type ResizeStorageAdapter = {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+};
+
+/**
+ * Version of the persisted payload format.
+ *
+ * Why version? If the payload shape ever changes, old entries are ignored
+ * (falling back to initialWidth/initialHeight) instead of being misread.
+ */
+export const PERSIST_VERSION = 1;
+
+/**
+ * Shape written to storage for a persisted element size.
+ * `unit` is omitted for pixels, so pixel payloads read the same as before units existed.
+ */
+type PersistedDimensions = ElementDimensions & { version: number; unit?: SizeUnit };
+
+/**
+ * Wrap a Web Storage object so that every access is failure-tolerant.
+ *
+ * Why a getter instead of the Storage object itself? Touching window.localStorage
+ * can throw (Safari private mode, disabled cookies, sandboxed iframes) and window
+ * doesn't exist during SSR. Resolving it lazily inside try/catch means a missing
+ * or broken storage degrades to "nothing persisted" rather than crashing render.
+ */
+function createWebStorageAdapter(getStorage: () => Storage): ResizeStorageAdapter {
+  return {
+    getItem: (key) => {
+      try {
+        return getStorage().getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    setItem: (key, value) => {
+      try {
+        getStorage().setItem(key, value);
+      } catch {
+        // Quota exceeded or storage unavailable - persistence is best-effort
+      }
+    },
+    removeItem: (key) => {
+      try {
+        getStorage().removeItem(key);
+      } catch {
+        // Storage unavailable - nothing to remove
+      }
+    },
+  };
+}
+
+/** Storage adapter backed by window.localStorage (survives reloads and restarts). */
+export const localStorageAdapter: ResizeStorageAdapter = createWebStorageAdapter(() => window.localStorage);
+
+/** Storage adapter backed by window.sessionStorage (survives reloads within a tab). */
+export const sessionStorageAdapter: ResizeStorageAdapter = createWebStorageAdapter(() => window.sessionStorage);
+
+/**
+ * Create an in-memory storage adapter.
+ *
+ * Useful for tests, SSR, or sharing sizes between components for the lifetime
+ * of the page without touching browser storage. Each call returns an isolated store.
+ */
+export function createMemoryStorageAdapter(): ResizeStorageAdapter {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    },
+  };
+}
+
+/**
+ * Read persisted dimensions, returning null if absent, corrupted, from another version,
+ * or written in a different unit (30% must not be restored as 30px).
+ *
+ * Bounds are NOT applied here - the caller re-validates against its current min/max,
+ * since those may have changed since the value was written.
+ */
+export function readPersistedDimensions(
+  storage: ResizeStorageAdapter,
+  key: string,
+  unit: SizeUnit = "px"
+): ElementDimensions | null {
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return null;
+
+    const parsed = JSON.parse(raw) as Partial<PersistedDimensions> | null;
+    if (!parsed || parsed.version !== PERSIST_VERSION) return null;
+    if ((parsed.unit ?? "px") !== unit) return null;
+
+    const { width, height } = parsed;
+    if (typeof width !== "number" || !isFinite(width)) return null;
+    if (typeof height !== "number" || !isFinite(height)) return null;
+
+    return { width, height };
+  } catch {
+    // Invalid JSON or a throwing custom adapter - treat as nothing persisted
+    return null;
+  }
+}
+
+/**
+ * Write dimensions to storage in the current versioned format.
+ */
+export function writePersistedDimensions(
+  storage: ResizeStorageAdapter,
+  key: string,
+  dims: ElementDimensions,
+  unit: SizeUnit = "px"
+): void {
+  const payload: PersistedDimensions = { version: PERSIST_VERSION, width: dims.width, height: dims.height };
+  if (unit !== "px") payload.unit = unit;
+  try {
+    storage.setItem(key, JSON.stringify(payload));
+  } catch {
+    // Custom adapters may throw - persistence is best-effort
+  }
+}
@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useDividerDrag } from "./use-divider-drag";
+import type { ResizeGroupPane } from "./use-resize-group";
+import { fitToTotal, getInitialSizes, moveDivider } from "./use-resize-group";
+
+/**
+ * Configuration for a single table column.
+ */
+export type ColumnConfig = {
+  /** Initial width in pixels. Default: 150 (total-width mode: share of the remaining space) */
+  initialWidth?: number;
+
+  /** Minimum width in pixels. Default: 40 */
+  minWidth?: number;
+
+  /** Maximum width in pixels. Default: Infinity */
+  maxWidth?: number;
+};
+
+/**
+ * Options for the useColumnResize hook.
+ */
+type Options = {
+  /**
+   * Table width the columns must fill. When set, widths always sum to it: dragging
+   * a column border grows that column and shrinks the ones after it (like
+   * useResizeGroup). When omitted, each column resizes independently and the
+   * table grows or shrinks with it.
+   */
+  totalWidth?: number;
+
+  /**
+   * Whether to notify width changes during drag (live updates).
+   * - true: onWidthsChange called during drag (throttled via RAF) + on release
+   * - false: onWidthsChange called only on release
+   * Default: false
+   */
+  live?: boolean;
+
+  /**
+   * Measure the width a cell needs to show its content without truncation.
+   * Default: the cell's max-content width (padding and borders included),
+   * leaving out column borders placed inside it with getResizerProps.
+   */
+  measureCell?: (cell: HTMLElement) => number;
+
+  /** Callback fired when column widths change. */
+  onWidthsChange?: (widths: number[]) => void;
+};
+
+const DEFAULT_COLUMN_WIDTH = 150;
+const DEFAULT_MIN_COLUMN_WIDTH = 40;
+
+/** Attribute that marks a cell as belonging to a column (see getCellProps). */
+const COLUMN_ATTRIBUTE = "data-column-index";
+
+/** Attribute that marks a column border, left out when measuring content (see getResizerProps). */
+const RESIZER_ATTRIBUTE = "data-column-resizer";
+
+/**
+ * Map column configs onto resize-group panes so the group's layout helpers apply.
+ */
+const toPanes = (columns: ColumnConfig[]): ResizeGroupPane[] =>
+  columns.map((c) => ({
+    initialSize: c.initialWidth,
+    minSize: c.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH,
+    maxSize: c.maxWidth,
+  }));
+
+const clampColumn = (width: number, pane: ResizeGroupPane) =>
+  Math.min(pane.maxSize ?? Number.POSITIVE_INFINITY, Math.max(pane.minSize ?? 0, width));
+
+/**
+ * Measure the width a cell's content needs.
+ *
+ * Why measure a clone? The cell itself is as wide as its column, and so are block
+ * children stretching to fill it - while the column border usually sits inside
+ * the cell, positioned over its edge. A hidden `max-content` copy without the
+ * resizers is as wide as the content alone (plus padding and borders), so auto-fit
+ * can shrink a column as well as grow it. The copy goes next to the cell so it
+ * inherits the same fonts.
+ */
+function measureCellContent(cell: HTMLElement): number {
+  const clone = cell.cloneNode(true) as HTMLElement;
+  clone.removeAttribute(COLUMN_ATTRIBUTE);
+  clone.querySelectorAll(`[${RESIZER_ATTRIBUTE}]`).forEach((resizer) => resizer.remove());
+  Object.assign(clone.style, {
+    position: "absolute",
+    visibility: "hidden",
+    width: "max-content",
+    minWidth: "0",
+    maxWidth: "none",
+  });
+
+  (cell.parentNode ?? document.body).appendChild(clone);
+  try {
+    return Math.ceil(clone.getBoundingClientRect().width);
+  } finally {
+    clone.remove();
+  }
+}
+
+/**
+ * Resize the columns of a table or data grid.
+ *
+ * Where useDragResize sizes one element, this hook manages the widths of every
+ * column at once, with per-column min/max, double-click-to-fit on the column
+ * border, and an optional total-width mode where the columns always fill the
+ * table (sharing useResizeGroup's layout logic).
+ *
+ * **Use cases:**
+ * - Data grids and spreadsheets
+ * - Fixed-width tables whose columns share the available width
+ *
+ * **Features:**
+ * - Per-column min/max constraints
+ * - Double-click a border to fit the column to its content; fitAll for every column
+ * - Total-width mode with cascading neighbours and proportional re-fit on table resize
+ * - Pointer capture, RAF-batched live updates, and memory-safe cleanup like useDragResize
+ *
+ * **Measuring content:**
+ * Auto-fit measures every element inside `ref` carrying getCellProps(index) -
+ * spread it on the header and body cells of each column. A column border placed
+ * inside a header cell is left out of the measurement (getResizerProps marks it).
+ *
+ * @param columns - Column configurations, in layout order
+ * @param options - Configuration options
+ * @returns Object with:
+ *   - widths: Current column widths in pixels (same order as columns)
+ *   - initiateResize: Function to call on a column border's onPointerDown
+ *   - getResizerProps: onPointerDown + onDoubleClick (auto-fit) for a column border
+ *   - isResizing: Boolean indicating if a column border is being dragged
+ *   - activeColumn: Index of the column being resized, or null
+ *   - autoFit: Fit one column to its content
+ *   - fitAll: Fit every column to its content (then fill totalWidth, if set)
+ *   - setWidths: Manually set widths (re-fitted to constraints and totalWidth)
+ *   - ref: Callback ref for the table root (needed for auto-fit)
+ *   - getCellProps: Props marking a cell as part of a column (needed for auto-fit)
+ *
+ * @example
+ * Data grid with auto-fit
+ * ```tsx
+ * function Grid({ rows }) {
+ *   const { widths, getResizerProps, getCellProps, ref } = useColumnResize([
+ *     { initialWidth: 200, minWidth: 120 },
+ *     { initialWidth: 120 },
+ *     { minWidth: 80, maxWidth: 300 },
+ *   ]);
+ *
+ *   return (
+ *     <table ref={ref} style={{ tableLayout: 'fixed' }}>
+ *       <colgroup>{widths.map((w, i) => <col key={i} style={{ width: w }} />)}</colgroup>
+ *       <thead>
+ *         <tr>
+ *           {['Name', 'Size', 'Owner'].map((label, i) => (
+ *             <th key={label} {...getCellProps(i)}>
+ *               {label}
+ *               <span className="col-resizer" {...getResizerProps(i)} />
+ *             </th>
+ *           ))}
+ *         </tr>
+ *       </thead>
+ *       <tbody>
+ *         {rows.map((row) => (
+ *           <tr key={row.id}>
+ *             {row.cells.map((cell, i) => <td key={i} {...getCellProps(i)}>{cell}</td>)}
+ *           </tr>
+ *         ))}
+ *       </tbody>
+ *     </table>
+ *   );
+ * }
+ * ```
+ */
+export function useColumnResize(
+  columns: ColumnConfig[],
+  { totalWidth, live = false, measureCell = measureCellContent, onWidthsChange }: Options = {}
+) {
+  const rootRef = useRef<HTMLElement | null>(null); // Table root, searched for cells on auto-fit
+
+  // Column configs are read through a ref for the same reason as useResizeGroup's panes
+  const panesRef = useRef(toPanes(columns));
+  panesRef.current = toPanes(columns);
+  // Whether widths were ever laid out against a real table width (total-width mode)
+  const measuredRef = useRef(totalWidth === undefined || totalWidth > 0);
+
+  /**
+   * Apply a column's new width under the current mode.
+   *
+   * Why moveDivider in total-width mode? Growing one column has to take the space
+   * from somewhere; the columns after it give it up (cascading past any at their
+   * min), the same way a split-pane divider works. The last column has no
+   * neighbour after it, so it borrows from the columns before it instead.
+   */
+  const resizeColumn = useCallback((start: number[], index: number, width: number) => {
+    const panes = panesRef.current;
+    if (totalWidth === undefined) {
+      const next = [...start];
+      next[index] = clampColumn(width, panes[index]);
+      return next;
+    }
+    const delta = width - start[index];
+    return index < start.length - 1
+      ? moveDivider(start, panes, index, delta)
+      : moveDivider(start, panes, index - 1, -delta);
+  }, [totalWidth]);
+
+  const resizeBy = useCallback(
+    (start: number[], index: number, delta: number) => resizeColumn(start, index, start[index] + delta),
+    [resizeColumn]
+  );
+
+  const {
+    sizes: widths,
+    sizesRef: widthsRef,
+    setSizes: setWidthsInternal,
+    initiateResize,
+    activeDivider: activeColumn,
+  } = useDividerDrag({
+    initialSizes: () => {
+      const panes = panesRef.current;
+      if (totalWidth !== undefined) return getInitialSizes(panes, totalWidth);
+      return panes.map((pane) => clampColumn(pane.initialSize ?? DEFAULT_COLUMN_WIDTH, pane));
+    },
+    resize: resizeBy,
+    live,
+    onSizesChange: onWidthsChange,
+  });
+
+  /**
+   * Width a column needs for its widest cell, or null if it has no marked cells.
+   */
+  const measureColumn = useCallback((index: number): number | null => {
+    const root = rootRef.current;
+    if (!root) return null;
+    const cells = root.querySelectorAll<HTMLElement>(`[${COLUMN_ATTRIBUTE}="${index}"]`);
+    if (cells.length === 0) return null;
+    return Math.max(...Array.from(cells, (cell) => measureCell(cell)));
+  }, [measureCell]);
+
+  /**
+   * Fit one column to its content (e.g. on double-click of its border).
+   * No-op if the column has no cells marked with getCellProps.
+   */
+  const autoFit = useCallback((index: number) => {
+    const fitted = measureColumn(index);
+    if (fitted === null) return;
+    const next = resizeColumn(widthsRef.current, index, fitted);
+    setWidthsInternal(next);
+    if (onWidthsChange) onWidthsChange(next);
+  }, [measureColumn, resizeColumn, widthsRef, setWidthsInternal, onWidthsChange]);
+
+  /**
+   * Fit every column to its content.
+   *
+   * In total-width mode the fitted widths are then scaled to fill the table, so
+   * the columns keep their content-based proportions.
+   */
+  const fitAll = useCallback(() => {
+    const panes = panesRef.current;
+    const fitted = widthsRef.current.map((w, i) => clampColumn(measureColumn(i) ?? w, panes[i]));
+    const next = totalWidth === undefined ? fitted : fitToTotal(fitted, panes, totalWidth);
+    setWidthsInternal(next);
+    if (onWidthsChange) onWidthsChange(next);
+  }, [measureColumn, totalWidth, widthsRef, setWidthsInternal, onWidthsChange]);
+
+  /**
+   * Manually set widths. Values are clamped to each column's min/max, and
+   * re-fitted to totalWidth in total-width mode.
+   */
+  const setWidths = useCallback((next: number[]) => {
+    const panes = panesRef.current;
+    setWidthsInternal(
+      totalWidth === undefined
+        ? next.map((w, i) => clampColumn(w, panes[i]))
+        : fitToTotal(next, panes, totalWidth)
+    );
+  }, [setWidthsInternal, totalWidth]);
+
+  /**
+   * Props for a column border: drag to resize, double-click to fit content.
+   * The border is marked so measuring a cell it sits in leaves it out.
+   */
+  const getResizerProps = useCallback(
+    (index: number) => ({
+      [RESIZER_ATTRIBUTE]: true,
+      onPointerDown: initiateResize(index),
+      onDoubleClick: () => autoFit(index),
+    }),
+    [initiateResize, autoFit]
+  );
+
+  /**
+   * Props marking a cell (header or body) as part of a column, for auto-fit.
+   */
+  const getCellProps = useCallback((index: number) => ({ [COLUMN_ATTRIBUTE]: index }), []);
+
+  /**
+   * Callback ref for the table root.
+   */
+  const ref = useCallback((node: HTMLElement | null) => {
+    rootRef.current = node;
+  }, []);
+
+  /**
+   * Re-fit widths when the table width or the number of columns changes. Added
+   * columns start at their initialWidth; removed ones drop out.
+   *
+   * Why proportional? Like useResizeGroup, a container resize should keep the
+   * columns' proportions rather than dumping all the change onto one column.
+   *
+   * Why lay out from scratch on the first non-zero totalWidth? Same as
+   * useResizeGroup: a table width measured after mount starts at 0, and widths
+   * fitted to 0 have lost the columns' initialWidth.
+   */
+  useEffect(() => {
+    const prev = widthsRef.current;
+    const panes = panesRef.current;
+
+    if (totalWidth === undefined) {
+      if (prev.length === panes.length) return;
+      setWidthsInternal(panes.map((pane, i) => prev[i] ?? clampColumn(pane.initialSize ?? DEFAULT_COLUMN_WIDTH, pane)));
+      return;
+    }
+
+    if (!measuredRef.current) {
+      if (totalWidth <= 0) return;
+      measuredRef.current = true;
+      setWidthsInternal(getInitialSizes(panes, totalWidth));
+      return;
+    }
+
+    if (prev.length === panes.length && Math.round(prev.reduce((acc, w) => acc + w, 0)) === Math.round(totalWidth)) return;
+    const resized = panes.map((pane, i) => prev[i] ?? pane.initialSize ?? totalWidth / panes.length);
+    setWidthsInternal(fitToTotal(resized, panes, totalWidth));
+  }, [totalWidth, columns.length, widthsRef, setWidthsInternal]);
+
+  return {
+    widths,
+    initiateResize, // usage: onPointerDown={initiateResize(0)} on column 0's right border
+    getResizerProps, // usage: <span {...getResizerProps(0)} />
+    isResizing: activeColumn !== null,
+    activeColumn,
+    autoFit,
+    fitAll,
+    setWidths,
+    ref,
+    getCellProps, // usage: <td {...getCellProps(0)}>
+  };
+}
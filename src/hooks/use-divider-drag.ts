@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Configuration parameters for the useDividerDrag hook.
+ */
+type Params = {
+  /** Sizes to start from (lazy initializer, like useState's). */
+  initialSizes: () => number[];
+
+  /**
+   * Sizes after dragging divider `index` by `delta` pixels from `start`.
+   * Called on every pointer move; must not mutate `start`.
+   */
+  resize: (start: number[], index: number, delta: number) => number[];
+
+  /** Pointer axis the dividers are dragged along. Default: 'x' */
+  axis?: "x" | "y";
+
+  /**
+   * Whether to notify size changes during drag (live updates).
+   * - true: onSizesChange called during drag (throttled via RAF) + on release
+   * - false: onSizesChange called only on release
+   * Default: false
+   */
+  live?: boolean;
+
+  /** Callback fired when a drag changes the sizes. */
+  onSizesChange?: (sizes: number[]) => void;
+};
+
+/**
+ * Own a list of sizes that dividers between them can be dragged to change.
+ *
+ * Shared pointer handling for useResizeGroup and useColumnResize: pointer capture,
+ * RAF-batched live updates, and listener cleanup. The owning hook supplies the
+ * layout rule (`resize`) and keeps everything else (setSizes, re-fit on resize).
+ *
+ * Why handle pointercancel, lostpointercapture and window blur? Without pointerup
+ * the drag would never end: the divider would stay active and the listeners stay
+ * attached. Like useDragResize's default interruptOutcome, an interrupted drag
+ * reverts to the sizes it started from.
+ *
+ * @param params - Configuration object
+ * @returns Object with:
+ *   - sizes: Current sizes
+ *   - sizesRef: Ref always holding the latest sizes (for use in callbacks)
+ *   - setSizes: Replace the sizes as-is (no fitting)
+ *   - initiateResize: Function to call on divider's onPointerDown
+ *   - activeDivider: Index of the divider being dragged, or null
+ */
+export function useDividerDrag({ initialSizes, resize, axis = "x", live = false, onSizesChange }: Params) {
+  // --- State ---
+  const [sizes, setSizesState] = useState<number[]>(initialSizes);
+  const [activeDivider, setActiveDivider] = useState<number | null>(null);
+
+  // --- Refs for latest values (avoid stale closures) ---
+  const sizesRef = useRef(sizes); // Current sizes
+  const startSizesRef = useRef(sizes); // Sizes when drag started
+  const originRef = useRef(0); // Pointer position along the axis when drag started
+  const rafIdRef = useRef<number | null>(null); // Pending RAF ID for cancellation
+
+  // Store active event listeners for proper cleanup
+  const activeListenersRef = useRef<{
+    target: HTMLElement | null;
+    pointerId: number | null;
+    moveHandler: ((e: PointerEvent) => void) | null;
+    upHandler: ((e: PointerEvent) => void) | null;
+    interruptHandler: (() => void) | null;
+  }>({
+    target: null,
+    pointerId: null,
+    moveHandler: null,
+    upHandler: null,
+    interruptHandler: null,
+  });
+
+  /**
+   * Update sizes and keep ref in sync.
+   */
+  const setSizes = useCallback((next: number[]) => {
+    sizesRef.current = next;
+    setSizesState(next);
+  }, []);
+
+  /**
+   * Notify callback with live updates, throttled via RAF.
+   */
+  const notifyLive = useCallback(() => {
+    if (!live || !onSizesChange) return;
+    if (rafIdRef.current) cancelAnimationFrame(rafIdRef.current);
+    rafIdRef.current = requestAnimationFrame(() => {
+      rafIdRef.current = null;
+      onSizesChange(sizesRef.current);
+    });
+  }, [live, onSizesChange]);
+
+  /**
+   * Clean up active listeners and RAF.
+   */
+  const cleanup = useCallback(() => {
+    const { target, moveHandler, upHandler, interruptHandler } = activeListenersRef.current;
+
+    if (target && moveHandler) {
+      target.removeEventListener("pointermove", moveHandler as EventListener);
+    }
+    if (target && upHandler) {
+      target.removeEventListener("pointerup", upHandler as EventListener);
+    }
+    if (target && interruptHandler) {
+      target.removeEventListener("pointercancel", interruptHandler);
+      target.removeEventListener("lostpointercapture", interruptHandler);
+      window.removeEventListener("blur", interruptHandler);
+    }
+
+    activeListenersRef.current = {
+      target: null,
+      pointerId: null,
+      moveHandler: null,
+      upHandler: null,
+      interruptHandler: null,
+    };
+
+    if (rafIdRef.current) {
+      cancelAnimationFrame(rafIdRef.current);
+      rafIdRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Detach the active drag's listeners and release pointer capture.
+   * Returns false when no drag is in progress.
+   *
+   * Why cleanup before release, and why try/catch? Releasing capture fires
+   * lostpointercapture, which must not reach our own handler; and after an
+   * interruption the browser may already have released it, which throws.
+   */
+  const endDrag = useCallback(() => {
+    const { target, pointerId } = activeListenersRef.current;
+    if (!target) return false;
+
+    cleanup();
+    if (pointerId !== null) {
+      try {
+        target.releasePointerCapture(pointerId);
+      } catch {
+        // Capture already released
+      }
+    }
+    setActiveDivider(null);
+    return true;
+  }, [cleanup]);
+
+  /**
+   * Initiate a divider drag.
+   *
+   * @param index - Index of the divider, passed through to `resize`
+   */
+  const initiateResize = useCallback(
+    (index: number) =>
+      (evt: React.PointerEvent<HTMLElement>) => {
+        evt.preventDefault();
+        evt.stopPropagation();
+
+        const target = evt.currentTarget as HTMLElement;
+        target.setPointerCapture(evt.pointerId);
+
+        const axisOf = (e: { pageX: number; pageY: number }) => (axis === "x" ? e.pageX : e.pageY);
+
+        originRef.current = axisOf(evt);
+        startSizesRef.current = sizesRef.current;
+        setActiveDivider(index);
+
+        const moveHandler = (e: PointerEvent) => {
+          const next = resize(startSizesRef.current, index, axisOf(e) - originRef.current);
+
+          // Deduplication: skip sub-pixel changes
+          const prev = sizesRef.current;
+          if (next.some((size, i) => Math.round(size) !== Math.round(prev[i]))) {
+            setSizes(next);
+            notifyLive();
+          }
+        };
+
+        const upHandler = (e: PointerEvent) => {
+          e.preventDefault();
+          if (!endDrag()) return;
+          if (onSizesChange) onSizesChange(sizesRef.current);
+        };
+
+        const interruptHandler = () => {
+          if (!endDrag()) return;
+          const start = startSizesRef.current;
+          if (start === sizesRef.current) return;
+          setSizes(start);
+          // Live consumers already saw the dragged sizes, so tell them about the revert
+          if (live && onSizesChange) onSizesChange(start);
+        };
+
+        // Store references BEFORE adding listeners so cleanup can find them
+        activeListenersRef.current = { target, pointerId: evt.pointerId, moveHandler, upHandler, interruptHandler };
+
+        target.addEventListener("pointermove", moveHandler as EventListener, { passive: true });
+        target.addEventListener("pointerup", upHandler as EventListener, { passive: true });
+        target.addEventListener("pointercancel", interruptHandler, { passive: true });
+        target.addEventListener("lostpointercapture", interruptHandler, { passive: true });
+        window.addEventListener("blur", interruptHandler);
+      },
+    [axis, resize, setSizes, notifyLive, endDrag, live, onSizesChange]
+  );
+
+  /**
+   * Cleanup on unmount.
+   */
+  useEffect(() => {
+    return () => {
+      cleanup();
+    };
+  }, [cleanup]);
+
+  return {
+    sizes,
+    sizesRef,
+    setSizes,
+    initiateResize, // usage: onPointerDown={initiateResize(0)}
+    activeDivider,
+  };
+}
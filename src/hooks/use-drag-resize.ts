@@ -1,38 +1,494 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+import { localStorageAdapter, readPersistedDimensions, writePersistedDimensions } from "./resize-storage";
+import type { ResizeStorageAdapter } from "./resize-storage";
 
 /**
  * Direction from which to resize the element.
  * - 'left': Dragging left increases width (resize from left edge)
  * - 'right': Dragging right increases width (resize from right edge)
+ * - 'top': Dragging up increases height (resize from top edge)
+ * - 'bottom': Dragging down increases height (resize from bottom edge)
+ * - Corners ('top-left', 'top-right', 'bottom-left', 'bottom-right') resize both axes
  */
-type ResizeDirection = "left" | "right";
+export type ResizeDirection =
+  | "left"
+  | "right"
+  | "top"
+  | "bottom"
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right";
+
+/**
+ * Per-axis sign of a resize direction.
+ * 1 = pointer moving in the positive axis direction grows the element,
+ * -1 = pointer moving in the negative axis direction grows it,
+ * 0 = the axis is not affected by this direction.
+ */
+type AxisSigns = { x: -1 | 0 | 1; y: -1 | 0 | 1 };
+
+/**
+ * Resolve which axes a direction resizes, and in which sense.
+ *
+ * Why signs instead of branching on each direction? Corners are just the
+ * combination of an edge on each axis, so a sign per axis lets the move handler
+ * use one formula for all eight directions.
+ */
+function getAxisSigns(direction: ResizeDirection): AxisSigns {
+  const x = direction.endsWith("left") ? -1 : direction.endsWith("right") ? 1 : 0;
+  const y = direction.startsWith("top") ? -1 : direction.startsWith("bottom") ? 1 : 0;
+  return { x, y };
+}
+
+/**
+ * Writing-mode relative edge to resize from, resolved to a physical edge at drag start.
+ * - 'inline-start' / 'inline-end': Start/end of a line of text (left/right in LTR horizontal text)
+ * - 'block-start' / 'block-end': Where lines stack from/to (top/bottom in horizontal text)
+ *
+ * Lets one sidebar component resize from its "trailing" edge in LTR, RTL and
+ * vertical writing modes without branching on the locale.
+ */
+export type LogicalResizeDirection = "inline-start" | "inline-end" | "block-start" | "block-end";
+
+/**
+ * Resolve a logical direction against an element's computed `direction` and `writing-mode`.
+ * Physical directions are returned unchanged; without an element, horizontal LTR is assumed.
+ *
+ * Why computed style? Both properties are inherited, so the handle sees whatever the
+ * nearest `dir="rtl"` ancestor or locale stylesheet set, without the consumer passing it in.
+ */
+export function resolveLogicalDirection(
+  direction: ResizeDirection | LogicalResizeDirection,
+  el: Element | null
+): ResizeDirection {
+  if (!direction.startsWith("inline-") && !direction.startsWith("block-")) return direction as ResizeDirection;
+
+  const style = el && typeof window !== "undefined" ? window.getComputedStyle(el) : null;
+  const rtl = style?.direction === "rtl";
+  const writingMode = style?.writingMode || style?.getPropertyValue("writing-mode") || "horizontal-tb";
+  const isStart = direction.endsWith("-start");
+
+  if (direction.startsWith("inline-")) {
+    if (writingMode.startsWith("vertical") || writingMode.startsWith("sideways")) {
+      // Vertical text runs top-to-bottom, except sideways-lr which runs bottom-to-top
+      const topFirst = (writingMode === "sideways-lr") === rtl;
+      return isStart === topFirst ? "top" : "bottom";
+    }
+    return isStart !== rtl ? "left" : "right";
+  }
+
+  // Block axis: lines stack top-to-bottom, right-to-left (*-rl) or left-to-right (*-lr)
+  if (writingMode.endsWith("-rl")) return isStart ? "right" : "left";
+  if (writingMode.endsWith("-lr")) return isStart ? "left" : "right";
+  return isStart ? "top" : "bottom";
+}
 
 /**
  * Dimensions of an element (width and height in pixels).
  */
 export type ElementDimensions = { width: number; height: number };
 
+/**
+ * Position of an element (x/y offset in pixels, e.g. for `left`/`top` or a translate).
+ */
+export type ElementPosition = { x: number; y: number };
+
+/**
+ * Rectangle the element must stay inside while moving (page pixels, same space as position).
+ */
+export type MoveBounds = { left: number; top: number; right: number; bottom: number };
+
+/** Clamp a value into [lo, hi]. */
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+
+/** ARIA values must be finite numbers - unbounded maxima are omitted instead. */
+const finiteOrUndefined = (v: number | undefined) => (v !== undefined && isFinite(v) ? v : undefined);
+
+/**
+ * Resolve an option that may be a static value or a getter.
+ */
+const resolveValue = (v: number | (() => number) | undefined, fallback: number) =>
+  typeof v === "function" ? v() : v ?? fallback;
+
+/**
+ * Project a page-space pointer delta into the element's local coordinate space.
+ *
+ * Why? Inside a `transform: scale(0.5)` canvas, 10 page pixels are 20 local pixels;
+ * on an element rotated 90deg, horizontal pointer movement changes its height.
+ * Undoing the rotation and dividing by the scale gives the delta along the
+ * element's own width/height axes.
+ */
+function projectDelta(dx: number, dy: number, scale: number, rotationDeg: number): { x: number; y: number } {
+  const s = scale > 0 && isFinite(scale) ? scale : 1;
+  if (rotationDeg === 0) return { x: dx / s, y: dy / s };
+  const rad = (-rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return {
+    x: (dx * cos - dy * sin) / s,
+    y: (dx * sin + dy * cos) / s,
+  };
+}
+
+/**
+ * How far back (ms) pointer samples count towards the release velocity.
+ * Older samples describe how the drag started, not how it was let go.
+ */
+const VELOCITY_WINDOW_MS = 100;
+
+/** Release speed (px/ms) below which a drag ends in place instead of flinging. */
+const MIN_FLING_VELOCITY = 0.1;
+
+/** A proposed size recorded during a drag, for estimating the release velocity. */
+type SizeSample = ElementDimensions & { t: number };
+
+/**
+ * Estimate the resize velocity (px/ms per axis) at time `now`.
+ *
+ * Why first-to-last instead of the last pair? Consecutive pointer events can be
+ * only a millisecond apart, so a single pair is dominated by jitter.
+ */
+function estimateVelocity(samples: SizeSample[], now: number): ElementDimensions {
+  const recent = samples.filter((sample) => now - sample.t <= VELOCITY_WINDOW_MS);
+  if (recent.length < 2) return { width: 0, height: 0 };
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const dt = last.t - first.t;
+  if (dt <= 0) return { width: 0, height: 0 };
+  return { width: (last.width - first.width) / dt, height: (last.height - first.height) / dt };
+}
+
+/**
+ * Find the nearest ancestor element that scrolls on either axis.
+ *
+ * Why elements only? When the window scrolls, the next pointer event's
+ * pageX/pageY already include it, so the delta accounts for it by itself.
+ */
+function getScrollContainer(el: Element): HTMLElement | null {
+  let n: HTMLElement | null = el.parentElement;
+  while (n && n !== document.body) {
+    const cs = getComputedStyle(n);
+    if (/(auto|scroll|overlay)/.test(cs.overflowX) || /(auto|scroll|overlay)/.test(cs.overflowY)) return n;
+    n = n.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Auto-scroll speed (px per frame) for a pointer near the edges of a container.
+ *
+ * Speed grows linearly from 0 at the inner edge of the zone to maxSpeed at the
+ * container edge (and stays there beyond it). Only axes the resize moves scroll.
+ */
+function getEdgeScrollSpeed(
+  rect: DOMRect,
+  pointer: { clientX: number; clientY: number },
+  axis: AxisSigns,
+  edge: number,
+  maxSpeed: number
+): { x: number; y: number } {
+  const along = (pos: number, lo: number, hi: number) => {
+    if (edge <= 0) return 0;
+    if (pos > hi - edge) return maxSpeed * Math.min(1, (pos - (hi - edge)) / edge);
+    if (pos < lo + edge) return -maxSpeed * Math.min(1, (lo + edge - pos) / edge);
+    return 0;
+  };
+  return {
+    x: axis.x === 0 ? 0 : along(pointer.clientX, rect.left, rect.right),
+    y: axis.y === 0 ? 0 : along(pointer.clientY, rect.top, rect.bottom),
+  };
+}
+
+/** Built-in easing curves (cubic), mapping linear time 0..1 to progress 0..1. */
+const EASINGS: Record<"linear" | "ease-in" | "ease-out" | "ease-in-out", (t: number) => number> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t * t,
+  "ease-out": (t) => 1 - Math.pow(1 - t, 3),
+  "ease-in-out": (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+/**
+ * Whether the user asked the OS to minimize motion.
+ *
+ * Why guarded? matchMedia doesn't exist during SSR or in some test environments.
+ */
+function prefersReducedMotion(): boolean {
+  if (typeof window === "undefined" || typeof window.matchMedia !== "function") return false;
+  return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
+
+/**
+ * Aspect ratio applied by a constraint pass.
+ * ratio = height / width (null = free); driver = the axis the other one is derived from.
+ */
+type AspectLock = { ratio: number | null; driver: "width" | "height" };
+
+/**
+ * useLayoutEffect in the browser, useEffect on the server.
+ *
+ * Why? React warns about useLayoutEffect during server rendering, where neither
+ * runs anyway; the browser still gets the before-paint timing.
+ */
+const useIsomorphicLayoutEffect = typeof window !== "undefined" ? useLayoutEffect : useEffect;
+
+/**
+ * Measure an element's content box (the space available to its children).
+ *
+ * Why not getBoundingClientRect? That includes padding and borders, so a child
+ * sized to it would overflow a padded container.
+ */
+function measureContentBox(el: HTMLElement): ElementDimensions {
+  const cs = getComputedStyle(el);
+  return {
+    width: el.clientWidth - (parseFloat(cs.paddingLeft) || 0) - (parseFloat(cs.paddingRight) || 0),
+    height: el.clientHeight - (parseFloat(cs.paddingTop) || 0) - (parseFloat(cs.paddingBottom) || 0),
+  };
+}
+
+/**
+ * Inputs available to a function-valued min/max constraint.
+ */
+export type ConstraintContext = {
+  /** Measured container (bounds container, or the element's parent); null until measured. */
+  container: ElementDimensions | null;
+  /** Viewport size (window.innerWidth / innerHeight). */
+  viewport: ElementDimensions;
+};
+
+/**
+ * A min/max size in pixels, or a resolver computing it from the layout,
+ * e.g. `({ viewport }) => viewport.width - 480`.
+ */
+export type SizeConstraint = number | ((ctx: ConstraintContext) => number);
+
+/** Min/max props with resolvers evaluated. */
+type ConstraintValues = { minWidth: number; minHeight: number; maxWidth?: number; maxHeight?: number };
+
+/** Effective limits after applying the measured bounds. */
+type SizeLimits = { minWidth: number; minHeight: number; maxWidth: number; maxHeight: number | undefined };
+
+/** Current viewport size (0x0 outside the browser). */
+function getViewportSize(): ElementDimensions {
+  return typeof window === "undefined" ? { width: 0, height: 0 } : { width: window.innerWidth, height: window.innerHeight };
+}
+
+/**
+ * Evaluate function-valued constraints; static numbers pass through.
+ */
+function evaluateConstraints(
+  constraints: { minWidth: SizeConstraint; minHeight: SizeConstraint; maxWidth?: SizeConstraint; maxHeight?: SizeConstraint },
+  ctx: ConstraintContext
+): ConstraintValues {
+  const evaluate = (c: SizeConstraint | undefined) => (typeof c === "function" ? c(ctx) : c);
+  return {
+    minWidth: evaluate(constraints.minWidth) as number,
+    minHeight: evaluate(constraints.minHeight) as number,
+    maxWidth: evaluate(constraints.maxWidth),
+    maxHeight: evaluate(constraints.maxHeight),
+  };
+}
+
+/**
+ * Effective limits: each max is the tighter of the constraint and the measured
+ * bounds, and never below its min.
+ */
+function getEffectiveLimits(values: ConstraintValues, boundsSize: ElementDimensions | null): SizeLimits {
+  const { minWidth, minHeight } = values;
+  const maxWidth = Math.max(
+    minWidth,
+    Math.min(values.maxWidth ?? Number.POSITIVE_INFINITY, boundsSize?.width ?? Number.POSITIVE_INFINITY)
+  );
+  const maxHeight = values.maxHeight === undefined && !boundsSize
+    ? undefined
+    : Math.max(minHeight, Math.min(values.maxHeight ?? Number.POSITIVE_INFINITY, boundsSize?.height ?? Number.POSITIVE_INFINITY));
+  return { minWidth, minHeight, maxWidth, maxHeight };
+}
+
+/**
+ * Unit for sizes exchanged with the consumer (inputs, callbacks, persisted values).
+ * - 'px': pixels (default)
+ * - '%': percent of the container, 0-100
+ * - 'fr': fraction of the container, 0-1 (e.g. for `${w}fr ${1 - w}fr` grid tracks)
+ */
+export type SizeUnit = "px" | "%" | "fr";
+
+/** Pixels per unit on each axis; null while that axis of the container is unmeasured. */
+type UnitScale = { width: number | null; height: number | null };
+
+/**
+ * Pixels per unit for an axis of the given container size.
+ *
+ * Why null instead of a guess? A relative size can't be resolved without a container;
+ * callers keep such values as they are until the axis is measured.
+ */
+function getPixelsPerUnit(unit: SizeUnit, containerSize: number | undefined): number | null {
+  if (unit === "px") return 1;
+  if (!containerSize || containerSize <= 0) return null;
+  return unit === "%" ? containerSize / 100 : containerSize;
+}
+
+/**
+ * Props for a resize handle element, returned by getHandleProps.
+ * Spread onto the handle to make it draggable and keyboard-accessible.
+ */
+export type ResizeHandleProps = {
+  role: "separator";
+  tabIndex: number;
+  "aria-orientation": "horizontal" | "vertical";
+  "aria-valuenow": number;
+  "aria-valuemin": number;
+  "aria-valuemax": number | undefined;
+  onPointerDown: (evt: React.PointerEvent<HTMLElement>) => void;
+  onKeyDown: (evt: React.KeyboardEvent<HTMLElement>) => void;
+};
+
+/**
+ * Extra information passed to onDimensionsChange for changes that didn't come
+ * from direct user interaction. Absent for drags, keyboard resizing, etc.
+ */
+export type DimensionsChangeMeta = {
+  /** Why the dimensions changed. */
+  reason: "undo" | "redo";
+};
+
+/**
+ * Why a drag gesture ended.
+ * - 'pointerup': released normally
+ * - 'escape' / 'cancel': aborted with Escape / cancelResize()
+ * - 'pointercancel', 'lostpointercapture', 'blur': interrupted by the browser
+ *   (touch taken over for scrolling, an alert, a tab switch, an iframe taking focus...)
+ */
+export type GestureEndReason = "pointerup" | "escape" | "cancel" | "pointercancel" | "lostpointercapture" | "blur";
+
+/**
+ * Easing for programmatic size animations.
+ */
+export type AnimationEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | ((t: number) => number)
+  | { type: "spring"; stiffness?: number; damping?: number; mass?: number };
+
+/**
+ * Options for animateTo.
+ */
+export type AnimateOptions = {
+  /** Tween duration in ms. Ignored by spring easing, which runs until it settles. Default: 200 */
+  duration?: number;
+
+  /**
+   * Easing curve: a built-in name, a custom (t: 0..1) => progress function, or a spring.
+   * Spring defaults: stiffness 170, damping 26, mass 1 (critically damped, no overshoot).
+   * Default: 'ease-out'
+   */
+  easing?: AnimationEasing;
+};
+
+/**
+ * Context passed to a custom snap function.
+ */
+export type SnapContext = {
+  /** Which dimension is being snapped. */
+  axis: "width" | "height";
+
+  /** Boundary size for this axis (as passed to initiateResize). */
+  boundary: number;
+
+  /** Minimum allowed size on this axis. */
+  min: number;
+
+  /** Maximum allowed size on this axis. */
+  max: number;
+};
+
+/**
+ * Metadata describing a drag gesture, passed to the lifecycle callbacks.
+ */
+export type ResizeGestureInfo = {
+  /** Handle direction the gesture was started from (logical directions resolved to the physical edge). */
+  direction: ResizeDirection;
+
+  /** Dimensions at the moment the gesture started. */
+  startDimensions: ElementDimensions;
+
+  /** Dimensions after this step of the gesture (constrained and snapped). */
+  dimensions: ElementDimensions;
+
+  /** Input device that started the gesture. */
+  pointerType: React.PointerEvent["pointerType"];
+
+  /**
+   * Raw pointer movement since the gesture started, in page pixels (not direction-adjusted).
+   * Includes any distance auto-scrolled under the pointer.
+   */
+  delta: { x: number; y: number };
+
+  /** Why the gesture ended (set for onResizeEnd, undefined while it's in progress). */
+  endReason?: GestureEndReason;
+
+  /** Milliseconds since the gesture started. */
+  elapsed: number;
+};
+
 /**
  * Configuration parameters for the useDragResize hook.
  */
 type Params = {
-  /** Initial width in pixels. Defaults to minWidth if not specified. */
+  /** Initial width, in `unit` (pixels by default). Defaults to minWidth if not specified. */
   initialWidth?: number;
 
-  /** Initial height in pixels. Defaults to minHeight if not specified. */
+  /** Initial height, in `unit` (pixels by default). Defaults to minHeight if not specified. */
   initialHeight?: number;
 
-  /** Minimum allowed width in pixels. */
-  minWidth: number;
+  /**
+   * Minimum allowed width in pixels.
+   *
+   * Each min/max also accepts a resolver `(ctx) => number` for limits that depend on
+   * the layout (see ConstraintContext). Resolvers are evaluated on mount, at drag start,
+   * and when the container or viewport resizes; when the limits tighten, the current
+   * size is re-clamped and onDimensionsChange fires.
+   */
+  minWidth: SizeConstraint;
+
+  /** Minimum allowed height in pixels (or a resolver). */
+  minHeight: SizeConstraint;
+
+  /**
+   * Maximum allowed width in pixels (or a resolver).
+   * Optional when `bounds` is set (derived from the measured bounds), otherwise unbounded.
+   */
+  maxWidth?: SizeConstraint;
 
-  /** Minimum allowed height in pixels. */
-  minHeight: number;
+  /** Maximum allowed height in pixels (or a resolver). Optional - defaults to the measured bounds, or Infinity. */
+  maxHeight?: SizeConstraint;
 
-  /** Maximum allowed width in pixels. */
-  maxWidth: number;
+  /**
+   * Constrain the element to a measured container.
+   * - 'parent': the element's parentElement (attach the returned `ref` to the element)
+   * - a ref object: any containing element
+   *
+   * The container's content box is tracked with ResizeObserver. When static
+   * maxWidth/maxHeight are also given, the smaller of the two applies. When the
+   * container shrinks, the current dimensions are re-clamped.
+   */
+  bounds?: "parent" | RefObject<HTMLElement>;
 
-  /** Maximum allowed height in pixels. Optional - defaults to Infinity. */
-  maxHeight?: number;
+  /**
+   * Unit of the sizes exchanged with the consumer: initialWidth/initialHeight,
+   * controlled width/height, setDimensions, animateTo, the size callbacks
+   * (onChange, onDimensionsChange, onResizeCancel, gesture info) and persisted values.
+   *
+   * '%' and 'fr' resolve against the bounds container, or the element's parent (attach
+   * `ref`) without bounds. The unit value is kept when the container resizes, so a 30%
+   * pane stays 30%. Dragging, currentWidth/currentHeight, min/max and snapping stay in
+   * pixels. Until the container is measured, values pass through unconverted.
+   * Default: 'px'
+   */
+  unit?: SizeUnit;
 
   /**
    * Grid snapping as percentage of available width (1-100).
@@ -41,6 +497,25 @@ type Params = {
    */
   gridPercent?: number;
 
+  /**
+   * Absolute pixel breakpoints to snap to, e.g. [240, 320, 480].
+   * A plain array applies to both axes; use { width, height } for per-axis points.
+   */
+  snapPoints?: number[] | { width?: number[]; height?: number[] };
+
+  /** Snap to multiples of a fixed pixel step (e.g. 8 for an 8px grid), on both axes. */
+  snapStep?: number;
+
+  /** Custom snap function returning the size to snap a proposed size to. */
+  snap?: (proposed: number, ctx: SnapContext) => number;
+
+  /**
+   * Magnetic distance in pixels for snapPoints/snapStep/snap.
+   * A size only snaps when the target is within this distance, so resizing stays
+   * free between snap points. Default: 10
+   */
+  snapDistance?: number;
+
   /**
    * Content width for aspect ratio locking.
    * If both contentWidth and contentHeight are provided, aspect ratio will be locked.
@@ -53,6 +528,14 @@ type Params = {
    */
   contentHeight?: number;
 
+  /**
+   * Toggle aspect locking by holding Shift while dragging.
+   * - Free elements: Shift locks the ratio the element had at drag start
+   * - Locked elements (contentWidth/contentHeight): Shift frees both axes
+   * Default: true
+   */
+  shiftToggleAspect?: boolean;
+
   /**
    * Whether to notify dimension changes during drag (live updates).
    * - true: onDimensionsChange called during drag (throttled via RAF) + on release
@@ -61,8 +544,167 @@ type Params = {
    */
   live?: boolean;
 
+  /**
+   * What to do when the browser interrupts a drag (pointercancel, lost pointer
+   * capture, window blur) so pointerup never arrives.
+   * - 'revert': restore the pre-drag size/position, like Escape (default)
+   * - 'commit': keep the size/position reached so far, like a release
+   */
+  interruptOutcome?: "commit" | "revert";
+
+  /**
+   * Defer layout until release: during a drag the size goes to previewDimensions
+   * (e.g. for an outline overlay) while currentWidth/currentHeight keep the
+   * committed size. The preview goes through the same snap/clamp pipeline.
+   * onChange fires once on release, and `live` notifications are skipped while
+   * previewing (onResize already carries the preview). Default: false
+   */
+  preview?: boolean;
+
+  /**
+   * Keep resizing after a fling release, decaying like a touch scroll.
+   * The fling settles on the nearest snap target (or collapses past the collapse
+   * threshold); onDimensionsChange and onResizeEnd fire once it has settled.
+   * Default: false
+   */
+  inertia?: boolean;
+
+  /** Fraction of fling velocity kept per 16ms frame (0-1); higher glides further. Default: 0.95 */
+  inertiaDecay?: number;
+
+  /**
+   * Scroll the nearest scrollable ancestor while the pointer is near its edge during
+   * a resize (e.g. a column in a wide table). Speed is proportional to how far into
+   * the edge zone the pointer is, and the scrolled distance counts towards the resize.
+   * Default: false
+   */
+  autoScroll?: boolean;
+
+  /** Depth (px) of the edge zone that triggers auto-scroll. Default: 40 */
+  autoScrollEdge?: number;
+
+  /** Auto-scroll speed (px per frame) at the very edge of the container. Default: 20 */
+  autoScrollSpeed?: number;
+
+  /** Pixels to resize per arrow key press on a focused handle. Default: 10 */
+  keyboardStep?: number;
+
+  /** Pixels to resize per Shift+Arrow key press on a focused handle. Default: 50 */
+  keyboardLargeStep?: number;
+
+  /**
+   * Allow the width to collapse below minWidth (e.g. sidebars).
+   * When enabled, dragging below collapseThreshold snaps the width to collapsedSize
+   * instead of clamping at minWidth. Default: false
+   */
+  collapsible?: boolean;
+
+  /** Width in pixels when collapsed (0 = hidden, or an icon-rail width). Default: 0 */
+  collapsedSize?: number;
+
+  /**
+   * Proposed width below which the element snaps to collapsedSize.
+   * Default: halfway between collapsedSize and minWidth.
+   */
+  collapseThreshold?: number;
+
+  /**
+   * Effective CSS scale of the element's coordinate space (e.g. a zoomed canvas).
+   * Number or getter; read at drag start. Pointer deltas are divided by it. Default: 1
+   */
+  scale?: number | (() => number);
+
+  /**
+   * Rotation of the element in degrees (clockwise, as in CSS rotate()).
+   * Number or getter; read at drag start. Pointer deltas are rotated into the
+   * element's local axes before snapping/constraining. Default: 0
+   */
+  rotation?: number | (() => number);
+
+  /** Initial position for move mode (initiateMove). Default: { x: 0, y: 0 } */
+  initialPosition?: ElementPosition;
+
+  /**
+   * Rectangle the whole element (position + size) is kept inside while moving.
+   * Resizing from a left/top handle stops when that edge reaches the rectangle.
+   * Unbounded if not specified.
+   */
+  moveBounds?: MoveBounds;
+
+  /**
+   * Enable two-finger pinch-to-resize on the element (attach initiatePinch).
+   * The distance change between the two pointers scales the dimensions; when one
+   * finger lifts, the other continues as a bottom-right resize. Default: false
+   *
+   * Like a drag, a pinch reverts on Escape or cancelResize() (firing onResizeCancel),
+   * and a browser interruption follows interruptOutcome. It has no handle, so the
+   * drag lifecycle callbacks (onResizeStart, onResize, onResizeEnd) don't fire;
+   * onDimensionsChange does, once the last finger lifts.
+   */
+  pinch?: boolean;
+
+  /**
+   * Keep an undo/redo history of committed sizes (drag release, keyboard,
+   * collapse/expand, setDimensions). Default: false
+   */
+  history?: boolean;
+
+  /** Maximum number of undo steps kept. Oldest entries are dropped. Default: 50 */
+  historyLimit?: number;
+
+  /**
+   * Storage key under which committed dimensions are persisted.
+   * When set, the last committed size is restored after mount (re-clamped to the
+   * current min/max) and written back whenever a size is committed: drag or pinch
+   * release, keyboard resize, collapse()/expand(), animateTo and undo/redo - never
+   * mid-gesture.
+   */
+  persistKey?: string;
+
+  /**
+   * Storage backend used with persistKey.
+   * Built-ins: localStorageAdapter (default), sessionStorageAdapter, createMemoryStorageAdapter().
+   */
+  storage?: ResizeStorageAdapter;
+
+  /**
+   * Controlled width/height, in `unit`. When either is set the parent owns the size: the hook
+   * renders these values and reports every proposed change through onChange
+   * (initialWidth/initialHeight and persisted values are then ignored for that axis).
+   */
+  width?: number;
+  height?: number;
+
+  /**
+   * Callback fired on every size change - each drag frame, keyboard step, animation
+   * frame, undo, etc. Required to update a controlled width/height.
+   */
+  onChange?: (d: ElementDimensions) => void;
+
   /** Callback fired when dimensions change. */
-  onDimensionsChange?: (d: ElementDimensions) => void;
+  onDimensionsChange?: (d: ElementDimensions, meta?: DimensionsChangeMeta) => void;
+
+  /**
+   * Callback fired when position changes - during a move (throttled via RAF when live)
+   * and on release, or when a left/top resize shifts the position to keep the
+   * opposite edge anchored.
+   */
+  onPositionChange?: (p: ElementPosition) => void;
+
+  /** Callback fired when a drag gesture starts (on pointer down). */
+  onResizeStart?: (info: ResizeGestureInfo) => void;
+
+  /** Callback fired on every dimension change during a drag (not throttled, not deduped by `live`). */
+  onResize?: (info: ResizeGestureInfo) => void;
+
+  /** Callback fired when a drag gesture is committed (on pointer up). Not fired on cancel. */
+  onResizeEnd?: (info: ResizeGestureInfo) => void;
+
+  /**
+   * Callback fired when a drag is aborted (Escape, pointercancel, or cancelResize()).
+   * Receives the restored pre-drag dimensions. onDimensionsChange is NOT called.
+   */
+  onResizeCancel?: (d: ElementDimensions) => void;
 };
 
 /**
@@ -79,10 +721,21 @@ type Params = {
  * - Canvas or editor viewports
  *
  * **Features:**
- * - Min/max width and height constraints
+ * - Edge (left/right/top/bottom) and corner handles
+ * - Min/max width and height constraints, optionally derived from a measured parent or computed by resolvers
+ * - Collapsible width with snap-to-collapse threshold
  * - Optional aspect ratio locking
- * - Grid snapping for aligned layouts
+ * - Grid snapping for aligned layouts, plus magnetic pixel breakpoints/steps/custom snapping
  * - Pointer capture for smooth dragging (works even when cursor leaves element)
+ * - Keyboard resizing with ARIA separator semantics via getHandleProps
+ * - Lifecycle callbacks (start/move/end) with gesture metadata
+ * - Scale- and rotation-aware deltas for transformed canvases and rotated elements
+ * - Opt-in two-finger pinch-to-resize for touch
+ * - Move mode (drag-to-reposition) with bounds; left/top resizing keeps the opposite edge anchored
+ * - Escape / pointercancel aborts a drag and reverts to the pre-drag size
+ * - Optional undo/redo history of committed sizes
+ * - Optional persistence of committed sizes through a pluggable storage adapter
+ * - Pixel, percentage or fraction units for sizes exchanged with the consumer
  * - RAF batching for smooth 60fps updates
  * - Sub-pixel deduplication to prevent thrashing
  * - Memory-safe cleanup (no listener leaks)
@@ -95,11 +748,23 @@ type Params = {
  *
  * @param params - Configuration object
  * @returns Object with:
- *   - initiateResize: Function to call on resize handle's onPointerDown
+ *   - initiateResize: Function to call on resize handle's onPointerDown.
+ *     Accepts an edge ('left' | 'right' | 'top' | 'bottom') or a corner ('bottom-right', ...)
  *   - isResizing: Boolean indicating if currently resizing
- *   - currentWidth: Current width (always >= minWidth)
+ *   - currentWidth: Current width (always >= minWidth, or collapsedSize when collapsed)
  *   - currentHeight: Current height (always >= minHeight)
  *   - setDimensions: Manually set dimensions
+ *   - animateTo / isAnimating: Tween to new dimensions (easing or spring), committing once done
+ *   - previewDimensions / previewPosition: In-progress drag result in preview mode (null otherwise)
+ *   - getHandleProps: Props (ARIA separator + pointer/keyboard handlers) for a handle
+ *   - isCollapsed / collapse / expand / toggle: Collapse state and controls (collapsible only)
+ *   - initiateMove / isMoving / position / setPosition: Drag-to-reposition (move mode)
+ *   - ref: Callback ref for the resized element (needed for bounds: 'parent')
+ *   - minWidth / minHeight / maxWidth / maxHeight: Effective limits after evaluating resolvers and applying measured bounds
+ *   - initiatePinch: Pointer-down handler for two-finger pinch resizing (pinch only)
+ *   - undo / redo / canUndo / canRedo: History of committed sizes (history only)
+ *   - cancelResize: Abort the active drag or its fling and revert (also bound to Escape)
+ *   - endReason: Why the last drag ended - release, cancel, or a browser interruption
  *
  * @example
  * Basic resizable panel
@@ -186,58 +851,347 @@ type Params = {
 export function useDragResize({
   initialWidth,
   initialHeight,
-  minWidth,
-  minHeight,
-  maxWidth,
-  maxHeight,
+  minWidth: minWidthProp,
+  minHeight: minHeightProp,
+  maxWidth: maxWidthProp,
+  maxHeight: maxHeightProp,
+  bounds,
+  unit = "px",
   gridPercent = 100,
+  snapPoints,
+  snapStep,
+  snap,
+  snapDistance = 10,
   contentWidth,
   contentHeight,
+  shiftToggleAspect = true,
   live = false,
+  interruptOutcome = "revert",
+  preview = false,
+  inertia = false,
+  inertiaDecay = 0.95,
+  autoScroll = false,
+  autoScrollEdge = 40,
+  autoScrollSpeed = 20,
+  keyboardStep = 10,
+  keyboardLargeStep = 50,
+  collapsible = false,
+  collapsedSize = 0,
+  collapseThreshold,
+  initialPosition,
+  moveBounds,
+  pinch = false,
+  scale,
+  rotation,
+  history = false,
+  historyLimit = 50,
+  persistKey,
+  storage = localStorageAdapter,
+  width,
+  height,
+  onChange,
   onDimensionsChange,
+  onResizeCancel,
+  onPositionChange,
+  onResizeStart,
+  onResize,
+  onResizeEnd,
 }: Params) {
+  // --- Bounds ---
+  // Measured container size (null until measured, or when nothing needs a container)
+  const [containerSize, setContainerSize] = useState<ElementDimensions | null>(null);
+  const [node, setNode] = useState<HTMLElement | null>(null);
+  const boundsSize = bounds ? containerSize : null;
+
+  // --- Constraints ---
+  // Read when resolvers are (re-)evaluated, so inline resolver functions don't need to be stable
+  const constraintsRef = useRef({ minWidth: minWidthProp, minHeight: minHeightProp, maxWidth: maxWidthProp, maxHeight: maxHeightProp });
+  constraintsRef.current = { minWidth: minWidthProp, minHeight: minHeightProp, maxWidth: maxWidthProp, maxHeight: maxHeightProp };
+  const hasResolvers = [minWidthProp, minHeightProp, maxWidthProp, maxHeightProp].some((c) => typeof c === "function");
+  // Resolver results from the last evaluation (static numbers are read from props directly)
+  const [evaluated, setEvaluated] = useState<ConstraintValues>(() =>
+    evaluateConstraints(constraintsRef.current, { container: null, viewport: getViewportSize() })
+  );
+  const { minWidth, minHeight, maxWidth, maxHeight } = getEffectiveLimits(
+    {
+      minWidth: typeof minWidthProp === "function" ? evaluated.minWidth : minWidthProp,
+      minHeight: typeof minHeightProp === "function" ? evaluated.minHeight : minHeightProp,
+      maxWidth: typeof maxWidthProp === "function" ? evaluated.maxWidth : maxWidthProp,
+      maxHeight: typeof maxHeightProp === "function" ? evaluated.maxHeight : maxHeightProp,
+    },
+    boundsSize
+  );
+  // Limits read by the gesture math (snapSize, constrainWH). Why a ref? A drag's
+  // listeners are created by the render before pointerdown, so they would miss
+  // constraints re-evaluated at drag start; refreshLimits updates this in place.
+  const limitsRef = useRef<SizeLimits>({ minWidth, minHeight, maxWidth, maxHeight });
+  limitsRef.current = { minWidth, minHeight, maxWidth, maxHeight };
+
+  // --- Units ---
+  const unitScale: UnitScale = {
+    width: getPixelsPerUnit(unit, containerSize?.width),
+    height: getPixelsPerUnit(unit, containerSize?.height),
+  };
+  // Read by the converters below, so they (and every handler using them) stay stable
+  const unitScaleRef = useRef(unitScale);
+  unitScaleRef.current = unitScale;
+  // Axes whose internal size is still an unconverted unit value (initial/persisted,
+  // given before the container was measured); resolved once that axis is measured
+  const unresolvedAxesRef = useRef({ width: false, height: false });
+
   // --- State ---
-  const [dimensions, setDimensions] = useState<ElementDimensions>({
-    width: initialWidth ?? minWidth,
-    height: initialHeight ?? minHeight,
+  // The persisted size (persistKey) is applied after mount - see the restore effect below
+  const [internalDims, setInternalDims] = useState<ElementDimensions>(() => {
+    if (unit !== "px") {
+      // Relative sizes can't be clamped yet - they're converted (and clamped) on measurement
+      unresolvedAxesRef.current = { width: initialWidth !== undefined, height: initialHeight !== undefined };
+    }
+    // Initial sizes above max are clamped silently: nothing changed, so there's nothing to notify
+    return {
+      width: unresolvedAxesRef.current.width ? initialWidth ?? minWidth : Math.min(initialWidth ?? minWidth, maxWidth),
+      height: unresolvedAxesRef.current.height
+        ? initialHeight ?? minHeight
+        : Math.min(initialHeight ?? minHeight, maxHeight ?? Number.POSITIVE_INFINITY),
+    };
   });
+  // Controlled mode: the parent's width/height win over internal state
+  const isControlled = width !== undefined || height !== undefined;
+  const dimensions = isControlled
+    ? {
+        width: width === undefined ? internalDims.width : width * (unitScale.width ?? 1),
+        height: height === undefined ? internalDims.height : height * (unitScale.height ?? 1),
+      }
+    : internalDims;
   const [isResizing, setIsResizing] = useState(false);
+  const [position, setPositionState] = useState<ElementPosition>(initialPosition ?? { x: 0, y: 0 });
+  const [isMoving, setIsMoving] = useState(false);
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+  const [isAnimating, setIsAnimating] = useState(false);
+  const [endReason, setEndReason] = useState<GestureEndReason | null>(null); // Why the last drag ended
+  // Preview mode: where the drag would put the element (null when not previewing)
+  const [previewState, setPreviewState] = useState<{ dimensions: ElementDimensions; position: ElementPosition } | null>(null);
 
   // --- Refs for latest values (avoid stale closures) ---
   // Why refs? Event listeners are added once when drag starts. If they referenced
   // state directly, they'd capture stale values. Refs always give us current values.
   const dimsRef = useRef(dimensions); // Current dimensions
+  const previewingRef = useRef(false); // True while a preview-mode drag defers committing
+  // Why sync during render? In controlled mode the props are the truth: they may
+  // change externally (e.g. a store) or reject a proposed size, and handlers read
+  // dimsRef. Every onChange also re-renders via setInternalDims, so this catches both.
+  // (Skipped while previewing: the drag's size lives only in the refs until release.)
+  if (isControlled && !previewingRef.current) dimsRef.current = dimensions;
   const originXRef = useRef(0); // Pointer X position when drag started
+  const originYRef = useRef(0); // Pointer Y position when drag started
   const startDimsRef = useRef<ElementDimensions>(dimensions); // Dimensions when drag started
   const dirRef = useRef<ResizeDirection>("right"); // Current resize direction
-  const rafIdRef = useRef<number | null>(null); // Pending RAF ID for cancellation
+  const posRef = useRef(position); // Current position
+  const startPosRef = useRef<ElementPosition>(position); // Position when drag started
+  const gestureKindRef = useRef<"resize" | "move">("resize"); // What the active drag does
+  const transformRef = useRef({ scale: 1, rotation: 0 }); // scale/rotation resolved at drag start
+  const committedRef = useRef(dimensions); // Last committed dimensions (history baseline)
+  const historyRef = useRef<{ past: ElementDimensions[]; future: ElementDimensions[] }>({ past: [], future: [] });
 
-  // Store active event listeners for proper cleanup
-  // Critical: Must store exact function references for removeEventListener to work
-  const activeListenersRef = useRef<{
+  // Pinch gesture state. Separate from activeListenersRef because pinch tracks
+  // several pointers on one element rather than one captured pointer on a handle.
+  const pinchRef = useRef<{
     target: Element | null;
+    pointers: Map<number, { x: number; y: number }>;
+    mode: "idle" | "pinch" | "single";
+    startDistance: number;
+    origin: { x: number; y: number };
+    initialDims: ElementDimensions; // Dimensions when resizing began (restored on cancel)
     moveHandler: ((e: PointerEvent) => void) | null;
     upHandler: ((e: PointerEvent) => void) | null;
+    cancelHandler: ((e: PointerEvent) => void) | null;
+    blurHandler: (() => void) | null;
+    keyHandler: ((e: KeyboardEvent) => void) | null;
   }>({
     target: null,
+    pointers: new Map(),
+    mode: "idle",
+    startDistance: 0,
+    origin: { x: 0, y: 0 },
+    initialDims: dimensions,
     moveHandler: null,
     upHandler: null,
+    cancelHandler: null,
+    blurHandler: null,
+    keyHandler: null,
   });
+  const rafIdRef = useRef<number | null>(null); // Pending RAF ID for cancellation
+  const gestureStartRef = useRef(0); // Timestamp when drag started
+  const pointerTypeRef = useRef<ResizeGestureInfo["pointerType"]>("mouse"); // Device that started the drag
+  const rawDeltaRef = useRef({ x: 0, y: 0 }); // Latest raw pointer delta
+  const endReasonRef = useRef<GestureEndReason | undefined>(undefined); // Why the active drag ended
+  const lastExpandedWidthRef = useRef<number | null>(null); // Width to restore on expand()
+  const velocitySamplesRef = useRef<SizeSample[]>([]); // Recent proposed sizes (inertia only)
+  const flingRafRef = useRef<number | null>(null); // Pending fling frame, non-null while a fling runs
+  const flingKeyHandlerRef = useRef<((e: KeyboardEvent) => void) | null>(null); // The drag's Escape binding, kept while flinging
+  const animationRafRef = useRef<number | null>(null); // Pending animateTo frame, non-null while animating
+
+  // Auto-scroll state for the active resize (container is null when not auto-scrolling)
+  const autoScrollRef = useRef<{
+    container: HTMLElement | null;
+    start: { left: number; top: number }; // Container scroll offsets when drag started
+    pointer: PointerEvent | null; // Latest pointer event, replayed after each scroll step
+    rafId: number | null;
+  }>({ container: null, start: { left: 0, top: 0 }, pointer: null, rafId: null });
+
+  // Why a ref for onChange? It's usually an inline arrow, and setDims sits under
+  // every handler - depending on it directly would recreate them all each render.
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const wasControlledRef = useRef(isControlled); // For the controlled/uncontrolled switch warning
+
+  // Store active event listeners for proper cleanup
+  // Critical: Must store exact function references for removeEventListener to work
+  const activeListenersRef = useRef<{
+    target: Element | null;
+    pointerId: number | null;
+    moveHandler: ((e: PointerEvent) => void) | null;
+    upHandler: ((e: PointerEvent) => void) | null;
+    cancelHandler: ((e: PointerEvent) => void) | null;
+    lostCaptureHandler: ((e: PointerEvent) => void) | null;
+    keyHandler: ((e: KeyboardEvent) => void) | null;
+    blurHandler: (() => void) | null;
+  }>({
+    target: null,
+    pointerId: null,
+    moveHandler: null,
+    upHandler: null,
+    cancelHandler: null,
+    lostCaptureHandler: null,
+    keyHandler: null,
+    blurHandler: null,
+  });
+
+  /**
+   * Convert pixel dimensions to the consumer's unit (identity for px).
+   * Axes whose container isn't measured yet pass through unconverted.
+   */
+  const toUnit = useCallback((d: ElementDimensions): ElementDimensions => {
+    const { width: sx, height: sy } = unitScaleRef.current;
+    return { width: sx ? d.width / sx : d.width, height: sy ? d.height / sy : d.height };
+  }, []);
+
+  /**
+   * Convert dimensions in the consumer's unit to pixels (inverse of toUnit).
+   */
+  const fromUnit = useCallback((d: ElementDimensions): ElementDimensions => {
+    const { width: sx, height: sy } = unitScaleRef.current;
+    return { width: sx ? d.width * sx : d.width, height: sy ? d.height * sy : d.height };
+  }, []);
 
   /**
    * Update dimensions and keep ref in sync.
    *
    * Why keep ref in sync? Event handlers use dimsRef to avoid stale closures,
    * so we must update it whenever state changes.
+   *
+   * While a preview-mode drag is in progress only the preview changes; the
+   * committed size is applied by endPreview on release.
    */
   const setDims = useCallback((next: ElementDimensions) => {
+    const prev = dimsRef.current;
     dimsRef.current = next;
-    setDimensions(next);
+    if (previewingRef.current) {
+      setPreviewState((p) => p && { ...p, dimensions: next });
+      return;
+    }
+    setInternalDims(next);
+    if (onChangeRef.current && (prev.width !== next.width || prev.height !== next.height)) {
+      onChangeRef.current(toUnit(next));
+    }
+  }, [toUnit]);
+
+  /**
+   * Update position and keep ref in sync (same reasoning as setDims).
+   */
+  const setPos = useCallback((next: ElementPosition) => {
+    posRef.current = next;
+    if (previewingRef.current) {
+      setPreviewState((p) => p && { ...p, position: next });
+      return;
+    }
+    setPositionState(next);
   }, []);
 
-  // --- Helper functions and computed values ---
-  const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+  /**
+   * Leave preview mode, applying the previewed size/position (or restoring the
+   * pre-drag ones) to the committed state. No-op when not previewing.
+   */
+  const endPreview = useCallback((apply: boolean) => {
+    if (!previewingRef.current) return;
+    previewingRef.current = false;
+    setPreviewState(null);
+
+    const dims = apply ? dimsRef.current : startDimsRef.current;
+    const pos = apply ? posRef.current : startPosRef.current;
+    // Rewind the refs to what's rendered, so setDims reports the change through onChange
+    dimsRef.current = startDimsRef.current;
+    setDims(dims);
+    setPos(pos);
+  }, [setDims, setPos]);
+
+  /**
+   * Keep a position inside moveBounds for the given size.
+   *
+   * Why max after min? If the element is larger than the bounds, pin it to the
+   * left/top edge rather than letting it escape on that side.
+   */
+  const clampPosition = useCallback((p: ElementPosition, size: ElementDimensions): ElementPosition => {
+    if (!moveBounds) return p;
+    return {
+      x: Math.max(moveBounds.left, Math.min(p.x, moveBounds.right - size.width)),
+      y: Math.max(moveBounds.top, Math.min(p.y, moveBounds.bottom - size.height)),
+    };
+  }, [moveBounds]);
 
+  /**
+   * Shift position so the edge opposite a left/top handle stays anchored.
+   *
+   * Why? With position-based layout, growing from the left edge must move the
+   * element left by the same amount, otherwise it grows to the right instead.
+   */
+  const anchorPosition = useCallback(
+    (direction: ResizeDirection, from: ElementPosition, fromDims: ElementDimensions, toDims: ElementDimensions) => {
+      const axis = getAxisSigns(direction);
+      return {
+        x: axis.x === -1 ? from.x + (fromDims.width - toDims.width) : from.x,
+        y: axis.y === -1 ? from.y + (fromDims.height - toDims.height) : from.y,
+      };
+    },
+    []
+  );
+
+  /**
+   * Cap a resize from a left/top handle so the moving edge stays inside moveBounds.
+   *
+   * Why only left/top? Those are the edges anchorPosition moves; without the cap the
+   * element would grow past the bounds the move gesture keeps it in. An element
+   * already past the edge may keep its size but not grow further. With an aspect
+   * lock the capped axis drives the other, so the ratio holds.
+   */
+  const limitToMoveBounds = useCallback(
+    (direction: ResizeDirection, from: ElementPosition, fromDims: ElementDimensions, toDims: ElementDimensions, lock: AspectLock) => {
+      if (!moveBounds) return toDims;
+      const axis = getAxisSigns(direction);
+      const roomW = axis.x === -1 ? Math.max(fromDims.width, from.x + fromDims.width - moveBounds.left) : Number.POSITIVE_INFINITY;
+      const roomH = axis.y === -1 ? Math.max(fromDims.height, from.y + fromDims.height - moveBounds.top) : Number.POSITIVE_INFINITY;
+      if (toDims.width <= roomW && toDims.height <= roomH) return toDims;
+
+      const { ratio } = lock;
+      if (ratio === null || !(ratio > 0) || !isFinite(ratio)) {
+        return { width: Math.min(toDims.width, roomW), height: Math.min(toDims.height, roomH) };
+      }
+      const cappedW = Math.min(toDims.width, roomW, roomH / ratio);
+      return { width: cappedW, height: cappedW * ratio };
+    },
+    [moveBounds]
+  );
+
+  // --- Helper functions and computed values ---
   // Check if aspect ratio should be locked
   const hasAspect = contentWidth !== null && contentWidth !== undefined &&
     contentHeight !== null && contentHeight !== undefined;
@@ -245,62 +1199,203 @@ export function useDragResize({
   // Calculate aspect ratio (height/width) for locked resizing
   const aspect = hasAspect ? (contentHeight as number) / (contentWidth as number) : 1;
 
+  // Collapsed state is derived from width: an expanded element is never narrower than minWidth
+  const isCollapsed = collapsible && dimensions.width <= collapsedSize;
+
   /**
-   * Snap width to grid based on percentage.
+   * Re-evaluate function-valued min/max constraints and return the effective limits.
    *
-   * Why grid snapping? Allows resizing to snap to predefined columns/sections,
-   * useful for layout systems where elements should align to a grid.
+   * Called at drag start and when the container or viewport resizes. The result is
+   * stored for the next render (which re-clamps if the limits tightened) and written
+   * to limitsRef, so a drag starting now already uses it. No-op without resolvers.
+   */
+  const refreshLimits = useCallback((): SizeLimits => {
+    if (!hasResolvers) return limitsRef.current;
+    const next = evaluateConstraints(constraintsRef.current, { container: containerSize, viewport: getViewportSize() });
+    setEvaluated((prev) =>
+      prev.minWidth === next.minWidth && prev.minHeight === next.minHeight &&
+      prev.maxWidth === next.maxWidth && prev.maxHeight === next.maxHeight
+        ? prev
+        : next
+    );
+    limitsRef.current = getEffectiveLimits(next, boundsSize);
+    return limitsRef.current;
+  }, [hasResolvers, containerSize, boundsSize]);
+
+  /**
+   * Snap a width or height to the configured snap targets.
+   *
+   * Magnetic targets (snapPoints, snapStep, snap) each propose their nearest
+   * candidate; the closest one wins if it's within snapDistance. Otherwise the
+   * gridPercent grid applies (always-on, based on percentage of the boundary).
+   *
+   * Why magnetic? Breakpoints like [240, 320, 480] should feel like detents, not
+   * a staircase - free resizing between them must still work. A fling passes
+   * distance = Infinity so it always settles on a target.
    *
    * Wrapped in useCallback to prevent recreating on every render and causing
    * handlePointerMove to recreate.
    */
-  const snapWidth = useCallback((proposed: number, boundaryWidth: number) => {
+  const snapSize = useCallback((
+    proposed: number,
+    axis: "width" | "height",
+    boundary: number,
+    distance: number = snapDistance
+  ) => {
+    const candidates: number[] = [];
+
+    const points = Array.isArray(snapPoints) ? snapPoints : snapPoints?.[axis];
+    if (points && points.length > 0) {
+      candidates.push(points.reduce((best, p) => (Math.abs(p - proposed) < Math.abs(best - proposed) ? p : best)));
+    }
+    if (snapStep && snapStep > 0) {
+      candidates.push(Math.round(proposed / snapStep) * snapStep);
+    }
+    if (snap) {
+      const limits = limitsRef.current;
+      candidates.push(snap(proposed, {
+        axis,
+        boundary,
+        min: axis === "width" ? limits.minWidth : limits.minHeight,
+        max: axis === "width" ? limits.maxWidth : limits.maxHeight ?? Number.POSITIVE_INFINITY,
+      }));
+    }
+
+    if (candidates.length > 0) {
+      const nearest = candidates.reduce((best, c) => (Math.abs(c - proposed) < Math.abs(best - proposed) ? c : best));
+      if (Math.abs(nearest - proposed) <= distance) return nearest;
+    }
+
     const pct = clamp(gridPercent, 1, 100);
     if (pct === 100) return proposed; // effectively no snapping
-    const step = (pct / 100) * boundaryWidth;
+    const step = (pct / 100) * boundary;
     if (step <= 0 || !isFinite(step)) return proposed;
     return Math.round(proposed / step) * step;
-  }, [gridPercent]);
+  }, [gridPercent, snapPoints, snapStep, snap, snapDistance]);
 
   /**
    * Apply constraints to width/height.
    *
-   * Why separate function? Centralizes all constraint logic (min/max/aspect ratio)
+   * Why separate function? Centralizes all constraint logic (min/max/aspect ratio/collapse)
    * in one place, making it easier to reason about and test.
    *
+   * @param lock - Aspect ratio to apply and which axis drives it (defaults to the
+   *   contentWidth/contentHeight lock, width-driven)
+   *
    * Wrapped in useCallback to prevent recreating on every render and causing
    * handlePointerMove to recreate.
    */
-  const constrainWH = useCallback((width: number) => {
-    // Fixed: removed redundant Math.max(minWidth) - minWidth is already a number
-    const clampedW = clamp(width, minWidth, maxWidth);
-    let height: number;
-    if (hasAspect) {
-      // Aspect ratio locked - calculate height from width
-      height = clampedW * aspect;
-    } else {
-      // Free height: preserve current unless below min
-      height = Math.max(dimsRef.current.height, minHeight);
+  const constrainWH = useCallback((
+    width: number,
+    proposedHeight: number = dimsRef.current.height,
+    lock: AspectLock = { ratio: hasAspect ? aspect : null, driver: "width" }
+  ) => {
+    const { minWidth, minHeight, maxWidth, maxHeight } = limitsRef.current;
+    const maxH = maxHeight ?? Number.POSITIVE_INFINITY;
+    const { ratio, driver } = lock;
+    // An expanded element is never narrower than minWidth, so collapse below the midpoint by default
+    const collapseBelow = collapseThreshold ?? (collapsedSize + minWidth) / 2;
+
+    if (ratio === null || !(ratio > 0) || !isFinite(ratio)) {
+      // Collapsible: below the threshold snap to collapsedSize instead of clamping at minWidth
+      const clampedW = collapsible && width < collapseBelow
+        ? collapsedSize
+        : clamp(width, minWidth, maxWidth);
+      // Free height: use the proposed height (current by default) unless below min
+      return { width: clampedW, height: clamp(Math.max(proposedHeight, minHeight), minHeight, maxH) };
+    }
+
+    // Aspect ratio locked - derive the other axis from the driving one
+    const proposedW = driver === "height" ? proposedHeight / ratio : width;
+    if (collapsible && proposedW < collapseBelow) {
+      return { width: collapsedSize, height: clamp(collapsedSize * ratio, minHeight, maxH) };
     }
-    const hi = maxHeight ?? Number.POSITIVE_INFINITY;
-    const clampedH = clamp(height, minHeight, hi);
-    return { width: clampedW, height: clampedH };
-  }, [minWidth, maxWidth, minHeight, maxHeight, hasAspect, aspect]);
+
+    // Reconcile bounds: narrow the width range so the derived height stays within
+    // minHeight/maxHeight too, rather than clamping height afterwards and breaking the ratio.
+    // If no width satisfies both at this ratio, the width bounds win.
+    const lo = Math.max(minWidth, minHeight / ratio);
+    const hi = Math.min(maxWidth, maxH / ratio);
+    const clampedW = lo <= hi ? clamp(proposedW, lo, hi) : clamp(proposedW, minWidth, maxWidth);
+    return { width: clampedW, height: clamp(clampedW * ratio, minHeight, maxH) };
+  }, [hasAspect, aspect, collapsible, collapseThreshold, collapsedSize]);
 
   /**
    * Notify callback with live updates, throttled via RAF.
    *
    * Why RAF? Prevents callback from being called more frequently than the browser
    * can paint (60fps), avoiding unnecessary work and improving performance.
+   *
+   * Why skip while previewing? Nothing is committed until release, and consumers
+   * would otherwise re-render with a size the element doesn't have every frame.
    */
   const notifyLive = useCallback(() => {
-    if (!live || !onDimensionsChange) return;
+    if (!live || !onDimensionsChange || previewingRef.current) return;
     if (rafIdRef.current) cancelAnimationFrame(rafIdRef.current);
     rafIdRef.current = requestAnimationFrame(() => {
       rafIdRef.current = null;
-      onDimensionsChange(dimsRef.current);
+      onDimensionsChange(toUnit(dimsRef.current));
     });
-  }, [live, onDimensionsChange]);
+  }, [live, onDimensionsChange, toUnit]);
+
+  /**
+   * Snapshot the active gesture for lifecycle callbacks.
+   *
+   * Why read from refs? The callbacks fire from native listeners attached at drag
+   * start, so state values would be stale.
+   */
+  const getGestureInfo = useCallback((): ResizeGestureInfo => ({
+    direction: dirRef.current,
+    startDimensions: toUnit(startDimsRef.current),
+    dimensions: toUnit(dimsRef.current),
+    pointerType: pointerTypeRef.current,
+    delta: rawDeltaRef.current,
+    endReason: endReasonRef.current,
+    elapsed: performance.now() - gestureStartRef.current,
+  }), [toUnit]);
+
+  /**
+   * Notify onPositionChange with live updates during a move, throttled via RAF.
+   * Skipped while previewing, like notifyLive.
+   */
+  const notifyLivePosition = useCallback(() => {
+    if (!live || !onPositionChange || previewingRef.current) return;
+    if (rafIdRef.current) cancelAnimationFrame(rafIdRef.current);
+    rafIdRef.current = requestAnimationFrame(() => {
+      rafIdRef.current = null;
+      onPositionChange(posRef.current);
+    });
+  }, [live, onPositionChange]);
+
+  /**
+   * Record a committed size in the undo history.
+   *
+   * Why track committedRef instead of the pre-drag size? Every commit path (drag,
+   * pinch, keyboard, setDimensions) then shares one rule: the previous commit
+   * becomes the undo target. Commits that don't change the rounded size (e.g. a
+   * click on a handle without moving) aren't recorded.
+   */
+  const recordCommit = useCallback((next: ElementDimensions) => {
+    const prev = committedRef.current;
+    committedRef.current = next;
+    if (!history) return;
+    if (Math.round(prev.width) === Math.round(next.width) && Math.round(prev.height) === Math.round(next.height)) return;
+
+    const h = historyRef.current;
+    h.past = [...h.past, prev].slice(-Math.max(1, historyLimit));
+    h.future = [];
+    setHistoryState({ canUndo: true, canRedo: false });
+  }, [history, historyLimit]);
+
+  /**
+   * Persist committed dimensions (no-op without persistKey).
+   *
+   * Why only on commit? Writing on every pointermove would hit synchronous
+   * storage up to 60 times a second for values that are immediately superseded.
+   */
+  const persist = useCallback((d: ElementDimensions) => {
+    if (persistKey) writePersistedDimensions(storage, persistKey, toUnit(d), unit);
+  }, [persistKey, storage, unit, toUnit]);
 
   /**
    * Clean up active listeners and RAF.
@@ -309,7 +1404,8 @@ export function useDragResize({
    * addEventListener. This is why we store them in activeListenersRef.
    */
   const cleanup = useCallback(() => {
-    const { target, moveHandler, upHandler } = activeListenersRef.current;
+    const { target, moveHandler, upHandler, cancelHandler, lostCaptureHandler, keyHandler, blurHandler } =
+      activeListenersRef.current;
 
     if (target && moveHandler) {
       target.removeEventListener("pointermove", moveHandler as EventListener);
@@ -317,36 +1413,143 @@ export function useDragResize({
     if (target && upHandler) {
       target.removeEventListener("pointerup", upHandler as EventListener);
     }
+    if (target && cancelHandler) {
+      target.removeEventListener("pointercancel", cancelHandler as EventListener);
+    }
+    if (target && lostCaptureHandler) {
+      target.removeEventListener("lostpointercapture", lostCaptureHandler as EventListener);
+    }
+    if (keyHandler) {
+      window.removeEventListener("keydown", keyHandler);
+    }
+    if (blurHandler) {
+      window.removeEventListener("blur", blurHandler);
+    }
 
-    activeListenersRef.current = { target: null, moveHandler: null, upHandler: null };
+    activeListenersRef.current = {
+      target: null,
+      pointerId: null,
+      moveHandler: null,
+      upHandler: null,
+      cancelHandler: null,
+      lostCaptureHandler: null,
+      keyHandler: null,
+      blurHandler: null,
+    };
 
     if (rafIdRef.current) {
       cancelAnimationFrame(rafIdRef.current);
       rafIdRef.current = null;
     }
+
+    const scroll = autoScrollRef.current;
+    if (scroll.rafId !== null) cancelAnimationFrame(scroll.rafId);
+    autoScrollRef.current = { container: null, start: { left: 0, top: 0 }, pointer: null, rafId: null };
   }, []);
 
+  /**
+   * Distance the auto-scroll container has scrolled since the drag started.
+   */
+  const getScrolledDistance = useCallback(() => {
+    const { container, start } = autoScrollRef.current;
+    if (!container) return { x: 0, y: 0 };
+    return { x: container.scrollLeft - start.left, y: container.scrollTop - start.top };
+  }, []);
+
+  /**
+   * Track the pointer for auto-scroll, starting the scroll loop when it enters an edge zone.
+   *
+   * Why replay the move handler? While the container scrolls under a stationary
+   * pointer no pointermove fires, so each scroll step re-applies the last event
+   * to turn the newly scrolled distance into size.
+   */
+  const updateAutoScroll = useCallback((evt: PointerEvent) => {
+    const state = autoScrollRef.current;
+    state.pointer = evt;
+    if (!state.container || state.rafId !== null) return;
+
+    const axis = getAxisSigns(dirRef.current);
+    const frame = () => {
+      const { container, pointer } = autoScrollRef.current;
+      if (!container || !pointer) return;
+
+      const speed = getEdgeScrollSpeed(container.getBoundingClientRect(), pointer, axis, autoScrollEdge, autoScrollSpeed);
+      const before = { left: container.scrollLeft, top: container.scrollTop };
+      container.scrollLeft += speed.x;
+      container.scrollTop += speed.y;
+
+      // Left the edge zone, or the container can't scroll any further
+      if (container.scrollLeft === before.left && container.scrollTop === before.top) {
+        autoScrollRef.current.rafId = null;
+        return;
+      }
+
+      activeListenersRef.current.moveHandler?.(pointer);
+      autoScrollRef.current.rafId = requestAnimationFrame(frame);
+    };
+
+    state.rafId = requestAnimationFrame(frame);
+  }, [autoScrollEdge, autoScrollSpeed]);
+
+  /**
+   * Resolve the aspect lock for a pointer resize.
+   *
+   * Shift flips the lock: free elements keep their drag-start ratio, locked ones go free.
+   * Top/bottom edges only move height, so the width is derived from it there.
+   */
+  const getAspectLock = useCallback((start: ElementDimensions, axis: AxisSigns, shiftKey: boolean): AspectLock => {
+    const flipped = shiftToggleAspect && shiftKey;
+    const ratio = hasAspect !== flipped
+      ? (hasAspect ? aspect : start.height / start.width)
+      : null;
+    return { ratio, driver: axis.x === 0 ? "height" : "width" };
+  }, [shiftToggleAspect, hasAspect, aspect]);
+
   /**
    * Main pointer move handler - updates dimensions during drag.
    *
-   * Why curry with boundaryWidth? The boundary width is determined when drag starts
+   * Why curry with the boundaries? They are determined when drag starts
    * and should remain constant throughout the drag operation.
    */
   const handlePointerMove = useCallback(
-    (boundaryWidth: number) =>
+    (boundaryWidth: number, boundaryHeight: number) =>
       (evt: PointerEvent) => {
         const start = startDimsRef.current;
-        const originX = originXRef.current;
+        const axis = getAxisSigns(dirRef.current);
+        // Content scrolled under the pointer by auto-scroll counts as pointer movement
+        const scrolled = getScrolledDistance();
+        rawDeltaRef.current = {
+          x: evt.pageX - originXRef.current + scrolled.x,
+          y: evt.pageY - originYRef.current + scrolled.y,
+        };
+
+        // Project into the element's local space (undo canvas scale / element rotation)
+        const { scale: s, rotation: r } = transformRef.current;
+        const local = projectDelta(rawDeltaRef.current.x, rawDeltaRef.current.y, s, r);
 
-        // Calculate width change based on direction.
-        // Why different for left vs right? For 'right' edge, dragging right increases width.
-        // For 'left' edge, dragging left increases width (moves edge away from content).
-        const deltaX = dirRef.current === "left" ? originX - evt.pageX : evt.pageX - originX;
+        // Calculate width/height change based on direction.
+        // Why signed? For 'right'/'bottom' edges, dragging away from the origin increases size.
+        // For 'left'/'top' edges, dragging left/up increases size (moves edge away from content).
+        // Axes the direction doesn't touch contribute no delta at all.
+        const deltaX = axis.x === 0 ? 0 : axis.x * local.x;
+        const deltaY = axis.y === 0 ? 0 : axis.y * local.y;
 
         // Apply transformations in order: propose -> snap -> constrain
         const proposedW = start.width + deltaX;
-        const snappedW = snapWidth(proposedW, boundaryWidth);
-        const next = constrainWH(snappedW);
+        const proposedH = start.height + deltaY;
+
+        if (inertia) {
+          // Keep a short window of unsnapped sizes for the release velocity
+          const now = performance.now();
+          const samples = velocitySamplesRef.current;
+          samples.push({ t: now, width: proposedW, height: proposedH });
+          while (samples.length > 2 && now - samples[0].t > VELOCITY_WINDOW_MS) samples.shift();
+        }
+        const snappedW = axis.x === 0 ? proposedW : snapSize(proposedW, "width", boundaryWidth);
+        const snappedH = axis.y === 0 ? proposedH : snapSize(proposedH, "height", boundaryHeight);
+        const lock = getAspectLock(start, axis, evt.shiftKey);
+        const next = limitToMoveBounds(dirRef.current, startPosRef.current, start, constrainWH(snappedW, snappedH, lock), lock);
+        const nextPos = anchorPosition(dirRef.current, startPosRef.current, start, next);
 
         // Deduplication: Only update if dimensions actually changed.
         // Why round? getBoundingClientRect can return fractional pixels (100.3333px).
@@ -358,33 +1561,347 @@ export function useDragResize({
           Math.round(prev.height) !== Math.round(next.height)
         ) {
           setDims(next);
+          setPos(nextPos);
           notifyLive();
+          if (onResize) onResize(getGestureInfo());
         }
+
+        updateAutoScroll(evt);
       },
-    [notifyLive, setDims, snapWidth, constrainWH]
+    [inertia, getScrolledDistance, updateAutoScroll, notifyLive, setDims, setPos, snapSize, constrainWH, getAspectLock, limitToMoveBounds, anchorPosition, onResize, getGestureInfo]
+  );
+
+  /**
+   * Record why the active drag ended (diagnostics: endReason, ResizeGestureInfo.endReason).
+   */
+  const markEnded = useCallback((reason: GestureEndReason) => {
+    endReasonRef.current = reason;
+    setEndReason(reason);
+  }, []);
+
+  /**
+   * Commit the current size at the end of a resize (on release, or once a fling settles).
+   */
+  const finishResize = useCallback(() => {
+    endPreview(true);
+    setIsResizing(false);
+    persist(dimsRef.current);
+    recordCommit(dimsRef.current);
+
+    // Final notification (even if !live, notify on release)
+    if (onDimensionsChange) onDimensionsChange(toUnit(dimsRef.current));
+    const pos = posRef.current;
+    const startPos = startPosRef.current;
+    if (onPositionChange && (pos.x !== startPos.x || pos.y !== startPos.y)) onPositionChange(pos);
+    if (onResizeEnd) onResizeEnd(getGestureInfo());
+  }, [endPreview, persist, recordCommit, onDimensionsChange, toUnit, onPositionChange, onResizeEnd, getGestureInfo]);
+
+  /**
+   * Stop a running animateTo where it is, without committing.
+   *
+   * Why no commit? Whatever interrupted it (a drag, another animateTo, a manual
+   * set) commits its own result, so onDimensionsChange still fires once.
+   */
+  const stopAnimation = useCallback(() => {
+    if (animationRafRef.current === null) return;
+    cancelAnimationFrame(animationRafRef.current);
+    animationRafRef.current = null;
+    setIsAnimating(false);
+  }, []);
+
+  /**
+   * Cancel a running fling's frames and its Escape binding, without committing.
+   * Returns false when no fling is running.
+   */
+  const haltFling = useCallback(() => {
+    if (flingRafRef.current === null) return false;
+    cancelAnimationFrame(flingRafRef.current);
+    flingRafRef.current = null;
+    if (flingKeyHandlerRef.current) window.removeEventListener("keydown", flingKeyHandlerRef.current);
+    flingKeyHandlerRef.current = null;
+    return true;
+  }, []);
+
+  /**
+   * Stop a running fling where it is and commit that size.
+   *
+   * Called when a new gesture or a programmatic change (commit, setDimensions,
+   * animateTo, undo/redo) starts mid-fling: the fling's commit isn't lost, and
+   * its next frame can't overwrite the new size.
+   */
+  const stopFling = useCallback(() => {
+    if (haltFling()) finishResize();
+  }, [haltFling, finishResize]);
+
+  /**
+   * Continue a released resize with decaying velocity, then commit.
+   *
+   * Why project the end point up front? Decaying at `inertiaDecay` per 16ms frame,
+   * the fling travels velocity * tau in total (tau = 16 / -ln(decay)). Snapping and
+   * constraining that end point before animating means the fling glides straight
+   * onto its detent instead of stopping short and then jumping to it.
+   */
+  const startFling = useCallback(
+    (velocity: ElementDimensions, shiftKey: boolean, boundaryWidth: number, boundaryHeight: number) => {
+      const start = startDimsRef.current;
+      const axis = getAxisSigns(dirRef.current);
+      const samples = velocitySamplesRef.current;
+      const released = samples.length > 0 ? samples[samples.length - 1] : dimsRef.current;
+      const tau = 16 / -Math.log(clamp(inertiaDecay, 0.01, 0.999));
+
+      const projectedW = released.width + velocity.width * tau;
+      const projectedH = released.height + velocity.height * tau;
+      const lock = getAspectLock(start, axis, shiftKey);
+      const target = limitToMoveBounds(
+        dirRef.current,
+        startPosRef.current,
+        start,
+        constrainWH(
+          axis.x === 0 ? projectedW : snapSize(projectedW, "width", boundaryWidth, Number.POSITIVE_INFINITY),
+          axis.y === 0 ? projectedH : snapSize(projectedH, "height", boundaryHeight, Number.POSITIVE_INFINITY),
+          lock
+        ),
+        lock
+      );
+      const from = dimsRef.current;
+      const startTime = performance.now();
+
+      const frame = (timestamp?: number) => {
+        const now = typeof timestamp === "number" ? timestamp : performance.now();
+        const remaining = Math.exp(-Math.max(0, now - startTime) / tau);
+        const next = {
+          width: target.width + (from.width - target.width) * remaining,
+          height: target.height + (from.height - target.height) * remaining,
+        };
+        const settled =
+          Math.abs(next.width - target.width) < 0.5 && Math.abs(next.height - target.height) < 0.5;
+
+        setDims(settled ? target : next);
+        setPos(anchorPosition(dirRef.current, startPosRef.current, start, dimsRef.current));
+
+        if (settled) {
+          haltFling();
+          finishResize();
+          return;
+        }
+        notifyLive();
+        if (onResize) onResize(getGestureInfo());
+        flingRafRef.current = requestAnimationFrame(frame);
+      };
+
+      flingRafRef.current = requestAnimationFrame(frame);
+    },
+    [inertiaDecay, constrainWH, snapSize, getAspectLock, limitToMoveBounds, setDims, setPos, anchorPosition, haltFling, finishResize, notifyLive, onResize, getGestureInfo]
   );
 
   /**
    * Pointer up handler - ends drag operation and performs final cleanup.
    *
    * Why curry with target and pointerId? These values are captured at drag start
-   * and must be the exact same instances used for cleanup.
+   * and must be the exact same instances used for cleanup. The boundaries are
+   * needed again to snap where a fling will settle.
+   *
+   * Why keep the Escape binding through a fling? The gesture isn't committed until
+   * the fling settles, so Escape (like cancelResize) can still revert it.
    */
   const handlePointerUp = useCallback(
-    (target: Element, pointerId: number) =>
+    (target: Element, pointerId: number, boundaryWidth: number, boundaryHeight: number) =>
       (evt: PointerEvent) => {
         evt.preventDefault();
-        target.releasePointerCapture(pointerId);
 
-        // Clean up listeners using stored references
+        // Clean up listeners using stored references. Before releasing capture,
+        // so the release doesn't trigger our own lostpointercapture handler.
+        const { keyHandler } = activeListenersRef.current;
         cleanup();
+        target.releasePointerCapture(pointerId);
+        markEnded("pointerup");
+
+        if (inertia) {
+          const velocity = estimateVelocity(velocitySamplesRef.current, performance.now());
+          if (Math.hypot(velocity.width, velocity.height) >= MIN_FLING_VELOCITY) {
+            startFling(velocity, evt.shiftKey, boundaryWidth, boundaryHeight);
+            if (keyHandler) {
+              flingKeyHandlerRef.current = keyHandler;
+              window.addEventListener("keydown", keyHandler);
+            }
+            return;
+          }
+        }
 
-        setIsResizing(false);
+        finishResize();
+      },
+    [cleanup, markEnded, inertia, startFling, finishResize]
+  );
+
+  /**
+   * Pointer move handler for move mode - updates position during drag.
+   *
+   * Same propose -> constrain -> dedupe pipeline as resizing, applied to x/y.
+   */
+  const handleMovePointerMove = useCallback(
+    (evt: PointerEvent) => {
+      const start = startPosRef.current;
+      // Position lives in the parent's space, so only the canvas scale applies - not the element's rotation
+      const local = projectDelta(evt.pageX - originXRef.current, evt.pageY - originYRef.current, transformRef.current.scale, 0);
+      const next = clampPosition(
+        {
+          x: start.x + local.x,
+          y: start.y + local.y,
+        },
+        dimsRef.current
+      );
+
+      const prev = posRef.current;
+      if (Math.round(prev.x) !== Math.round(next.x) || Math.round(prev.y) !== Math.round(next.y)) {
+        setPos(next);
+        notifyLivePosition();
+      }
+    },
+    [clampPosition, setPos, notifyLivePosition]
+  );
+
+  /**
+   * Pointer up handler for move mode - ends the move and commits the position.
+   */
+  const handleMovePointerUp = useCallback(
+    (target: Element, pointerId: number) =>
+      (evt: PointerEvent) => {
+        evt.preventDefault();
+        cleanup();
+        target.releasePointerCapture(pointerId);
+        markEnded("pointerup");
+        setIsMoving(false);
 
         // Final notification (even if !live, notify on release)
-        if (onDimensionsChange) onDimensionsChange(dimsRef.current);
+        if (onPositionChange) onPositionChange(posRef.current);
       },
-    [cleanup, onDimensionsChange]
+    [cleanup, markEnded, onPositionChange]
+  );
+
+  /**
+   * Detach the active drag's listeners and release pointer capture.
+   * Returns false when no drag is in progress.
+   *
+   * Why cleanup before release, and why try/catch? Releasing capture fires
+   * lostpointercapture, which must not reach our own handler; and after
+   * pointercancel or a lost capture the browser has already released it, so
+   * releasing an inactive pointer throws NotFoundError.
+   */
+  const releaseGesture = useCallback(() => {
+    const { target, pointerId } = activeListenersRef.current;
+    if (!target) return false;
+
+    cleanup();
+    if (pointerId !== null) {
+      try {
+        target.releasePointerCapture(pointerId);
+      } catch {
+        // Capture already released
+      }
+    }
+    return true;
+  }, [cleanup]);
+
+  /**
+   * Abort the active drag and revert to the pre-drag dimensions and position.
+   *
+   * Why revert to startDimsRef? It holds the size from the start of the gesture,
+   * so an accidental drag never commits a layout change. onResizeCancel fires
+   * instead of onDimensionsChange (live consumers use it to roll back), and
+   * nothing is persisted. Also aborts an in-progress move or a released drag's
+   * running fling. No-op when no drag is in progress.
+   */
+  const revertGesture = useCallback((reason: GestureEndReason) => {
+    if (!releaseGesture() && !haltFling()) return;
+    markEnded(reason);
+    endPreview(false);
+
+    const start = startDimsRef.current;
+    setDims(start);
+    setPos(startPosRef.current);
+
+    if (gestureKindRef.current === "move") {
+      setIsMoving(false);
+      return;
+    }
+
+    setIsResizing(false);
+    if (onResizeCancel) onResizeCancel(toUnit(start));
+  }, [releaseGesture, haltFling, markEnded, endPreview, setDims, setPos, onResizeCancel, toUnit]);
+
+  /**
+   * End the active drag keeping what it reached so far, as a release would
+   * (without an inertia fling). No-op when no drag is in progress.
+   */
+  const commitGesture = useCallback((reason: GestureEndReason) => {
+    if (!releaseGesture()) return;
+    markEnded(reason);
+
+    if (gestureKindRef.current === "move") {
+      setIsMoving(false);
+      if (onPositionChange) onPositionChange(posRef.current);
+      return;
+    }
+    finishResize();
+  }, [releaseGesture, markEnded, onPositionChange, finishResize]);
+
+  /**
+   * Handle a browser interruption (pointercancel, lost capture, window blur).
+   *
+   * Why handle these at all? Without pointerup the drag would never end:
+   * isResizing stays true and the listeners stay attached.
+   */
+  const interruptGesture = useCallback((reason: GestureEndReason) => {
+    if (interruptOutcome === "commit") commitGesture(reason);
+    else revertGesture(reason);
+  }, [interruptOutcome, commitGesture, revertGesture]);
+
+  /**
+   * Attach the listeners for an active drag (resize or move).
+   *
+   * Why shared? Both gestures need the same bookkeeping: exact handler references
+   * stored for cleanup, Escape bound to cancelResize, and the browser
+   * interruptions (pointercancel, lostpointercapture, window blur) bound to
+   * interruptGesture.
+   */
+  const attachDragListeners = useCallback(
+    (
+      target: HTMLElement,
+      pointerId: number,
+      moveHandler: (e: PointerEvent) => void,
+      upHandler: (e: PointerEvent) => void
+    ) => {
+      const cancelHandler = () => interruptGesture("pointercancel");
+      const lostCaptureHandler = () => interruptGesture("lostpointercapture");
+      const blurHandler = () => interruptGesture("blur");
+      const keyHandler = (e: KeyboardEvent) => {
+        if (e.key !== "Escape") return;
+        e.preventDefault();
+        revertGesture("escape");
+      };
+
+      // Store references BEFORE adding listeners so cleanup can find them
+      activeListenersRef.current = {
+        target,
+        pointerId,
+        moveHandler,
+        upHandler,
+        cancelHandler,
+        lostCaptureHandler,
+        keyHandler,
+        blurHandler,
+      };
+
+      // Add listeners (passive for better scroll performance)
+      target.addEventListener("pointermove", moveHandler as EventListener, { passive: true });
+      target.addEventListener("pointerup", upHandler as EventListener, { passive: true });
+      target.addEventListener("pointercancel", cancelHandler as EventListener, { passive: true });
+      target.addEventListener("lostpointercapture", lostCaptureHandler as EventListener, { passive: true });
+      // Why window? The handle usually isn't focused mid-drag, so Escape must be caught globally
+      window.addEventListener("keydown", keyHandler);
+      window.addEventListener("blur", blurHandler);
+    },
+    [interruptGesture, revertGesture]
   );
 
   /**
@@ -395,44 +1912,781 @@ export function useDragResize({
    *
    * Why pointer capture? Ensures we receive pointermove events even if the pointer
    * moves outside the handle element or even outside the window.
+   *
+   * boundaryWidth/boundaryHeight are the reference sizes for gridPercent snapping
+   * on each axis (default: maxWidth / maxHeight).
+   *
+   * Logical directions ('inline-end', ...) are resolved once here, from the handle's
+   * computed direction/writing-mode; the rest of the gesture works on the physical edge.
    */
   const initiateResize = useCallback(
-    (direction: ResizeDirection, boundaryWidth: number = maxWidth) =>
+    (
+      direction: ResizeDirection | LogicalResizeDirection,
+      boundaryWidth: number = maxWidth,
+      boundaryHeight: number = maxHeight ?? Number.POSITIVE_INFINITY
+    ) =>
       (evt: React.PointerEvent<HTMLElement>) => {
         evt.preventDefault();
         evt.stopPropagation();
+        stopFling();
+        stopAnimation();
 
         const target = evt.currentTarget as HTMLElement;
         target.setPointerCapture(evt.pointerId);
 
         // Initialize refs for this drag operation
-        dirRef.current = direction;
+        const limits = refreshLimits();
+        dirRef.current = resolveLogicalDirection(direction, target);
         originXRef.current = evt.pageX;
+        originYRef.current = evt.pageY;
+        if (!isCollapsed) lastExpandedWidthRef.current = dimensions.width;
         const start = {
-          width: clamp(dimensions.width, minWidth, maxWidth),
-          height: clamp(dimensions.height, minHeight, maxHeight ?? Number.POSITIVE_INFINITY),
+          width: isCollapsed ? collapsedSize : clamp(dimensions.width, limits.minWidth, limits.maxWidth),
+          height: clamp(dimensions.height, limits.minHeight, limits.maxHeight ?? Number.POSITIVE_INFINITY),
         };
         startDimsRef.current = start;
+        startPosRef.current = posRef.current;
+        gestureKindRef.current = "resize";
+        transformRef.current = { scale: resolveValue(scale, 1), rotation: resolveValue(rotation, 0) };
+        gestureStartRef.current = performance.now();
+        pointerTypeRef.current = evt.pointerType;
+        rawDeltaRef.current = { x: 0, y: 0 };
+        endReasonRef.current = undefined;
+        velocitySamplesRef.current = [];
+        const scrollContainer = autoScroll ? getScrollContainer(target) : null;
+        autoScrollRef.current = {
+          container: scrollContainer,
+          start: { left: scrollContainer?.scrollLeft ?? 0, top: scrollContainer?.scrollTop ?? 0 },
+          pointer: null,
+          rafId: null,
+        };
+        previewingRef.current = preview;
+        if (preview) setPreviewState({ dimensions: start, position: posRef.current });
         setIsResizing(true);
 
         // Create handler functions with captured context
-        const moveHandler = handlePointerMove(boundaryWidth);
-        const upHandler = handlePointerUp(target, evt.pointerId);
-
-        // Store references BEFORE adding listeners so cleanup can find them
-        activeListenersRef.current = {
+        attachDragListeners(
           target,
-          moveHandler,
-          upHandler,
+          evt.pointerId,
+          handlePointerMove(boundaryWidth, boundaryHeight),
+          handlePointerUp(target, evt.pointerId, boundaryWidth, boundaryHeight)
+        );
+
+        if (onResizeStart) onResizeStart(getGestureInfo());
+      },
+    [dimensions.width, dimensions.height, maxWidth, maxHeight, isCollapsed, collapsedSize, scale, rotation, autoScroll, preview, refreshLimits, stopFling, stopAnimation, attachDragListeners, handlePointerMove, handlePointerUp, onResizeStart, getGestureInfo]
+  );
+
+  /**
+   * Initiate move operation (drag-to-reposition).
+   *
+   * Called from the drag surface's onPointerDown (e.g. a title bar). Uses the same
+   * pointer capture, listener bookkeeping, RAF batching and Escape-to-cancel as
+   * resizing, but updates position instead of dimensions.
+   */
+  const initiateMove = useCallback(
+    (evt: React.PointerEvent<HTMLElement>) => {
+      evt.preventDefault();
+      evt.stopPropagation();
+      stopFling();
+      stopAnimation();
+
+      const target = evt.currentTarget as HTMLElement;
+      target.setPointerCapture(evt.pointerId);
+
+      // Initialize refs for this drag operation
+      originXRef.current = evt.pageX;
+      originYRef.current = evt.pageY;
+      startDimsRef.current = dimsRef.current;
+      startPosRef.current = posRef.current;
+      gestureKindRef.current = "move";
+      endReasonRef.current = undefined;
+      transformRef.current = { scale: resolveValue(scale, 1), rotation: 0 };
+      setIsMoving(true);
+
+      attachDragListeners(target, evt.pointerId, handleMovePointerMove, handleMovePointerUp(target, evt.pointerId));
+    },
+    [scale, stopFling, stopAnimation, attachDragListeners, handleMovePointerMove, handleMovePointerUp]
+  );
+
+  /**
+   * Manually set position, e.g. to restore a saved window placement.
+   */
+  const setPosition = useCallback((next: ElementPosition) => {
+    setPos(next);
+  }, [setPos]);
+
+  /**
+   * Detach pinch listeners and reset pinch state.
+   */
+  const cleanupPinch = useCallback(() => {
+    const { target, moveHandler, upHandler, cancelHandler, blurHandler, keyHandler } = pinchRef.current;
+    if (target && moveHandler) {
+      target.removeEventListener("pointermove", moveHandler as EventListener);
+    }
+    if (target && upHandler) {
+      target.removeEventListener("pointerup", upHandler as EventListener);
+    }
+    if (target && cancelHandler) {
+      target.removeEventListener("pointercancel", cancelHandler as EventListener);
+      target.removeEventListener("lostpointercapture", cancelHandler as EventListener);
+    }
+    if (blurHandler) window.removeEventListener("blur", blurHandler);
+    if (keyHandler) window.removeEventListener("keydown", keyHandler);
+    pinchRef.current = {
+      target: null,
+      pointers: new Map(),
+      mode: "idle",
+      startDistance: 0,
+      origin: { x: 0, y: 0 },
+      initialDims: dimsRef.current,
+      moveHandler: null,
+      upHandler: null,
+      cancelHandler: null,
+      blurHandler: null,
+      keyHandler: null,
+    };
+  }, []);
+
+  /**
+   * End the pinch gesture, releasing every pointer still down. No-op (beyond the
+   * cleanup) when the pinch never started resizing.
+   *
+   * - 'commit': keep the size reached so far, as lifting the last finger would
+   * - 'revert': restore the size from before the pinch, like cancelResize
+   */
+  const endPinch = useCallback((outcome: "commit" | "revert", reason: GestureEndReason) => {
+    const { target, pointers, mode, initialDims } = pinchRef.current;
+    // Cleanup first: releasing capture fires lostpointercapture, which must not re-enter
+    cleanupPinch();
+    pointers.forEach((_, pointerId) => {
+      try {
+        target?.releasePointerCapture(pointerId);
+      } catch {
+        // Capture already released
+      }
+    });
+    if (mode === "idle") return;
+
+    markEnded(reason);
+    setIsResizing(false);
+    if (outcome === "revert") {
+      setDims(initialDims);
+      if (onResizeCancel) onResizeCancel(toUnit(initialDims));
+      return;
+    }
+    persist(dimsRef.current);
+    recordCommit(dimsRef.current);
+    if (onDimensionsChange) onDimensionsChange(toUnit(dimsRef.current));
+  }, [cleanupPinch, markEnded, setDims, onResizeCancel, persist, recordCommit, onDimensionsChange, toUnit]);
+
+  /**
+   * (Re)start the pinch or single-pointer phase from the current dimensions.
+   *
+   * Why restart from current dims on every transition? A finger landing or lifting
+   * changes the reference distance/origin; re-basing avoids a size jump.
+   */
+  const rebasePinch = useCallback(() => {
+    const state = pinchRef.current;
+    const points = Array.from(state.pointers.values());
+    startDimsRef.current = dimsRef.current;
+
+    if (points.length >= 2) {
+      state.mode = "pinch";
+      state.startDistance = Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+    } else if (points.length === 1 && state.mode !== "idle") {
+      // Hand over to single-pointer resizing with the remaining finger
+      state.mode = "single";
+      state.origin = points[0];
+    }
+  }, []);
+
+  /**
+   * Pointer move handler for pinch mode.
+   */
+  const handlePinchMove = useCallback(
+    (evt: PointerEvent) => {
+      const state = pinchRef.current;
+      if (!state.pointers.has(evt.pointerId)) return;
+      state.pointers.set(evt.pointerId, { x: evt.pageX, y: evt.pageY });
+
+      const start = startDimsRef.current;
+      let next: ElementDimensions;
+      if (state.mode === "pinch") {
+        const [a, b] = Array.from(state.pointers.values());
+        if (state.startDistance <= 0) return;
+        const scale = Math.hypot(b.x - a.x, b.y - a.y) / state.startDistance;
+        // constrainWH derives height from width when aspect-locked, so scaling width is enough
+        next = constrainWH(start.width * scale, start.height * scale);
+      } else if (state.mode === "single") {
+        const { scale: s, rotation: r } = transformRef.current;
+        const local = projectDelta(evt.pageX - state.origin.x, evt.pageY - state.origin.y, s, r);
+        next = constrainWH(start.width + local.x, start.height + local.y);
+      } else {
+        return;
+      }
+
+      const prev = dimsRef.current;
+      if (
+        Math.round(prev.width) !== Math.round(next.width) ||
+        Math.round(prev.height) !== Math.round(next.height)
+      ) {
+        setDims(next);
+        notifyLive();
+      }
+    },
+    [constrainWH, setDims, notifyLive]
+  );
+
+  /**
+   * Pointer up handler for pinch mode.
+   * Commits once the last finger lifts, if any resizing happened.
+   */
+  const handlePinchUp = useCallback(
+    (evt: PointerEvent) => {
+      const state = pinchRef.current;
+      if (!state.pointers.has(evt.pointerId)) return;
+
+      if (state.pointers.size > 1) {
+        state.pointers.delete(evt.pointerId);
+        try {
+          state.target?.releasePointerCapture(evt.pointerId);
+        } catch {
+          // Capture already released
+        }
+        rebasePinch();
+        return;
+      }
+      endPinch("commit", "pointerup");
+    },
+    [rebasePinch, endPinch]
+  );
+
+  /**
+   * Handle a browser interruption of the pinch (pointercancel, lost capture,
+   * window blur) the way interruptGesture handles one during a drag.
+   *
+   * Why end the whole pinch rather than drop one pointer? A pointer the browser
+   * took away would otherwise linger in the pointer map, and the two-pointer
+   * guard in initiatePinch would then ignore every later pinch.
+   */
+  const interruptPinch = useCallback((reason: GestureEndReason) => {
+    endPinch(interruptOutcome, reason);
+  }, [endPinch, interruptOutcome]);
+
+  /**
+   * Initiate pinch tracking. Attach to the resizable element's onPointerDown.
+   *
+   * Every touch pointer that lands on the element is captured and tracked;
+   * resizing starts when a second one arrives. The element should have
+   * `touch-action: none` so the browser doesn't claim the pinch for zooming.
+   *
+   * Why only touch? Capturing a mouse or pen press would retarget its pointerup,
+   * so clicks on interactive children (buttons, links) would never land.
+   */
+  const initiatePinch = useCallback(
+    (evt: React.PointerEvent<HTMLElement>) => {
+      if (!pinch || evt.pointerType !== "touch") return;
+      const state = pinchRef.current;
+      if (state.pointers.size >= 2) return; // Extra fingers are ignored
+
+      const target = evt.currentTarget as HTMLElement;
+      target.setPointerCapture(evt.pointerId);
+      state.pointers.set(evt.pointerId, { x: evt.pageX, y: evt.pageY });
+
+      if (!state.target) {
+        const cancelHandler = (e: PointerEvent) => {
+          if (!pinchRef.current.pointers.has(e.pointerId)) return;
+          interruptPinch(e.type === "pointercancel" ? "pointercancel" : "lostpointercapture");
+        };
+        const blurHandler = () => interruptPinch("blur");
+        const keyHandler = (e: KeyboardEvent) => {
+          if (e.key !== "Escape" || pinchRef.current.mode === "idle") return;
+          e.preventDefault();
+          endPinch("revert", "escape");
         };
 
-        // Add listeners (passive for better scroll performance)
-        target.addEventListener("pointermove", moveHandler as EventListener, { passive: true });
-        target.addEventListener("pointerup", upHandler as EventListener, { passive: true });
+        Object.assign(state, { target, moveHandler: handlePinchMove, upHandler: handlePinchUp, cancelHandler, blurHandler, keyHandler });
+        target.addEventListener("pointermove", handlePinchMove as EventListener, { passive: true });
+        target.addEventListener("pointerup", handlePinchUp as EventListener, { passive: true });
+        target.addEventListener("pointercancel", cancelHandler as EventListener, { passive: true });
+        target.addEventListener("lostpointercapture", cancelHandler as EventListener, { passive: true });
+        window.addEventListener("keydown", keyHandler);
+        window.addEventListener("blur", blurHandler);
+      }
+
+      if (state.pointers.size === 2) {
+        stopAnimation();
+        refreshLimits();
+        transformRef.current = { scale: resolveValue(scale, 1), rotation: resolveValue(rotation, 0) };
+        state.initialDims = dimsRef.current;
+        endReasonRef.current = undefined;
+        rebasePinch();
+        setIsResizing(true);
+      }
+    },
+    [pinch, scale, rotation, stopAnimation, refreshLimits, handlePinchMove, handlePinchUp, interruptPinch, endPinch, rebasePinch]
+  );
+
+  /** Abort the active drag, fling or pinch and revert (public API, also bound to Escape). */
+  const cancelResize = useCallback(() => {
+    revertGesture("cancel");
+    if (pinchRef.current.mode !== "idle") endPinch("revert", "cancel");
+  }, [revertGesture, endPinch]);
+
+  /**
+   * Apply a programmatic (non-drag) change: update, persist, and notify.
+   */
+  const commit = useCallback((next: ElementDimensions) => {
+    stopFling();
+    stopAnimation();
+    setDims(next);
+    persist(next);
+    recordCommit(next);
+    if (onDimensionsChange) onDimensionsChange(toUnit(next));
+  }, [stopFling, stopAnimation, setDims, persist, recordCommit, onDimensionsChange, toUnit]);
+
+  /**
+   * Manually set dimensions (direct override, no constraints or callbacks).
+   * Recorded in the undo history when history is enabled.
+   */
+  const setDimensionsManually = useCallback((dims: ElementDimensions) => {
+    const next = fromUnit(dims);
+    stopFling();
+    stopAnimation();
+    setDims(next);
+    recordCommit(next);
+  }, [fromUnit, stopFling, stopAnimation, setDims, recordCommit]);
+
+  /**
+   * Animate to new dimensions over RAF, then commit them.
+   *
+   * The target goes through the same constraints as keyboard resizing. Calling
+   * animateTo again (or starting a drag) interrupts the running animation from
+   * wherever it currently is. onDimensionsChange fires once, when it completes.
+   *
+   * Why check prefers-reduced-motion here rather than leave it to the consumer?
+   * Every call site would need the same check; jumping straight to the target
+   * keeps the callback contract (one onDimensionsChange) identical either way.
+   */
+  const animateTo = useCallback((dims: ElementDimensions, { duration = 200, easing = "ease-out" }: AnimateOptions = {}) => {
+    stopFling();
+    stopAnimation();
+
+    const from = dimsRef.current;
+    const requested = fromUnit(dims);
+    const target = constrainWH(requested.width, requested.height);
+    if (collapsible && target.width <= collapsedSize && from.width > collapsedSize) {
+      lastExpandedWidthRef.current = from.width; // expand() restores the pre-animation width
+    }
+
+    const isSpring = typeof easing === "object";
+    if (prefersReducedMotion() || (!isSpring && duration <= 0)) {
+      commit(target);
+      return;
+    }
+
+    const ease = typeof easing === "function" ? easing : typeof easing === "string" ? EASINGS[easing] : null;
+    const spring = typeof easing === "object"
+      ? { stiffness: easing.stiffness ?? 170, damping: easing.damping ?? 26, mass: easing.mass ?? 1 }
+      : null;
+    const span = Math.max(Math.abs(target.width - from.width), Math.abs(target.height - from.height));
+    let progress = 0;
+    let velocity = 0; // Spring velocity, in progress units per second
+    let startTime: number | null = null;
+    let lastTime = 0;
+
+    const frame = (timestamp?: number) => {
+      const now = typeof timestamp === "number" ? timestamp : performance.now();
+      if (startTime === null) {
+        startTime = now;
+        lastTime = now;
+      }
+
+      let done: boolean;
+      if (spring) {
+        // Semi-implicit Euler; dt capped so a backgrounded tab doesn't explode the integration
+        const dt = Math.min(now - lastTime, 64) / 1000;
+        const force = -spring.stiffness * (progress - 1) - spring.damping * velocity;
+        velocity += (force / spring.mass) * dt;
+        progress += velocity * dt;
+        done = Math.abs(1 - progress) * span < 0.5 && Math.abs(velocity) * span < 5;
+      } else {
+        const t = Math.min(1, (now - startTime) / duration);
+        progress = (ease as (t: number) => number)(t);
+        done = t >= 1;
+      }
+      lastTime = now;
+
+      if (done) {
+        animationRafRef.current = null;
+        setIsAnimating(false);
+        commit(target);
+        return;
+      }
+
+      setDims({
+        width: from.width + (target.width - from.width) * progress,
+        height: from.height + (target.height - from.height) * progress,
+      });
+      animationRafRef.current = requestAnimationFrame(frame);
+    };
+
+    setIsAnimating(true);
+    animationRafRef.current = requestAnimationFrame(frame);
+  }, [stopFling, stopAnimation, fromUnit, constrainWH, collapsible, collapsedSize, commit, setDims]);
+
+  /**
+   * Step through the undo history.
+   *
+   * Why pass a reason? Consumers that sync sizes to a store or analytics need to
+   * tell a history step apart from a user drag.
+   */
+  const stepHistory = useCallback((reason: "undo" | "redo") => {
+    stopFling(); // Its commit goes on the history first, so undo mid-fling reverts the drag
+    const h = historyRef.current;
+    const from = reason === "undo" ? h.past : h.future;
+    if (from.length === 0) return;
+
+    const target = from[from.length - 1];
+    const current = committedRef.current;
+    if (reason === "undo") {
+      h.past = h.past.slice(0, -1);
+      h.future = [...h.future, current];
+    } else {
+      h.future = h.future.slice(0, -1);
+      h.past = [...h.past, current];
+    }
+    committedRef.current = target;
+    setHistoryState({ canUndo: h.past.length > 0, canRedo: h.future.length > 0 });
+
+    stopAnimation();
+    setDims(target);
+    persist(target);
+    if (onDimensionsChange) onDimensionsChange(toUnit(target), { reason });
+  }, [stopFling, stopAnimation, setDims, persist, onDimensionsChange, toUnit]);
+
+  /** Revert to the previous committed size. No-op if there's nothing to undo. */
+  const undo = useCallback(() => stepHistory("undo"), [stepHistory]);
+
+  /** Re-apply the last undone size. No-op if there's nothing to redo. */
+  const redo = useCallback(() => stepHistory("redo"), [stepHistory]);
+
+  /**
+   * Collapse to collapsedSize, remembering the current width for expand().
+   * No-op unless collapsible, or when already collapsed.
+   */
+  const collapse = useCallback(() => {
+    const current = dimsRef.current;
+    if (!collapsible || current.width <= collapsedSize) return;
+    lastExpandedWidthRef.current = current.width;
+    commit(constrainWH(collapsedSize, current.height));
+  }, [collapsible, collapsedSize, commit, constrainWH]);
+
+  /**
+   * Expand back to the width before the last collapse.
+   * Falls back to initialWidth (or minWidth) if it was never expanded, e.g. restored collapsed.
+   */
+  const expand = useCallback(() => {
+    const current = dimsRef.current;
+    if (!collapsible || current.width > collapsedSize) return;
+    const width = lastExpandedWidthRef.current ?? initialWidth ?? minWidth;
+    commit(constrainWH(Math.max(width, minWidth), current.height));
+  }, [collapsible, collapsedSize, initialWidth, minWidth, commit, constrainWH]);
+
+  /** Collapse if expanded, expand if collapsed. */
+  const toggle = useCallback(() => {
+    if (dimsRef.current.width <= collapsedSize) expand();
+    else collapse();
+  }, [collapsedSize, collapse, expand]);
+
+  /**
+   * Keyboard handler for a focused resize handle.
+   *
+   * Arrow keys move the handle's edge by keyboardStep (Shift: keyboardLargeStep),
+   * Home/End jump to the min/max size on the handle's axes, and Enter toggles
+   * collapse on collapsible elements (the ARIA window splitter pattern). Moving an edge
+   * "outward" grows the element, mirroring the pointer delta logic.
+   *
+   * Why no snapping? Keyboard steps are already discrete and chosen by the consumer;
+   * snapping them to the grid would make small steps appear to do nothing.
+   */
+  const handleKeyDown = useCallback(
+    (logicalDirection: ResizeDirection | LogicalResizeDirection) =>
+      (evt: React.KeyboardEvent<HTMLElement>) => {
+        const direction = resolveLogicalDirection(logicalDirection, evt.currentTarget);
+        const axis = getAxisSigns(direction);
+        const step = evt.shiftKey ? keyboardLargeStep : keyboardStep;
+        const current = dimsRef.current;
+        let width = current.width;
+        let height = current.height;
+
+        switch (evt.key) {
+          case "ArrowLeft":
+            width -= axis.x * step;
+            break;
+          case "ArrowRight":
+            width += axis.x * step;
+            break;
+          case "ArrowUp":
+            height -= axis.y * step;
+            break;
+          case "ArrowDown":
+            height += axis.y * step;
+            break;
+          case "Home":
+            if (axis.x !== 0) width = minWidth;
+            if (axis.y !== 0) height = minHeight;
+            break;
+          case "End":
+            if (axis.x !== 0 && isFinite(maxWidth)) width = maxWidth;
+            if (axis.y !== 0 && maxHeight !== undefined && isFinite(maxHeight)) height = maxHeight;
+            break;
+          case "Enter":
+            if (!collapsible || axis.x === 0) return;
+            evt.preventDefault();
+            toggle();
+            return;
+          default:
+            return; // Not a resize key - let it propagate untouched
+        }
+
+        evt.preventDefault();
+
+        // Top/bottom handles only step height; with an aspect lock the width follows it
+        const lock: AspectLock = { ratio: hasAspect ? aspect : null, driver: axis.x === 0 ? "height" : "width" };
+        const prevPos = posRef.current;
+        const next = limitToMoveBounds(direction, prevPos, current, constrainWH(width, height, lock), lock);
+        if (
+          Math.round(current.width) === Math.round(next.width) &&
+          Math.round(current.height) === Math.round(next.height)
+        ) {
+          return;
+        }
+
+        const nextPos = anchorPosition(direction, prevPos, current, next);
+        commit(next);
+        if (nextPos.x !== prevPos.x || nextPos.y !== prevPos.y) {
+          setPos(nextPos);
+          if (onPositionChange) onPositionChange(nextPos);
+        }
       },
-    [dimensions.width, dimensions.height, minWidth, minHeight, maxWidth, maxHeight, handlePointerMove, handlePointerUp]
+    [keyboardStep, keyboardLargeStep, minWidth, minHeight, maxWidth, maxHeight, collapsible, toggle, hasAspect, aspect, constrainWH, limitToMoveBounds, commit, anchorPosition, setPos, onPositionChange]
   );
 
+  /**
+   * Build props for a resize handle.
+   *
+   * Why role="separator"? A focusable separator is the ARIA pattern for a splitter:
+   * screen readers announce the current size via aria-valuenow and the valid range
+   * via aria-valuemin/max. Edges on the x axis are vertical separators and report
+   * width; top/bottom edges are horizontal separators and report height. Corners
+   * report width. Logical directions are resolved against the element passed to `ref`
+   * here, and against the handle itself when it is dragged or keyed.
+   */
+  const getHandleProps = useCallback(
+    (direction: ResizeDirection | LogicalResizeDirection): ResizeHandleProps => {
+      const isHorizontalEdge = getAxisSigns(resolveLogicalDirection(direction, node)).x === 0;
+      return {
+        role: "separator",
+        tabIndex: 0,
+        "aria-orientation": isHorizontalEdge ? "horizontal" : "vertical",
+        "aria-valuenow": Math.round(
+          isHorizontalEdge
+            ? Math.max(dimensions.height, minHeight)
+            : isCollapsed ? collapsedSize : Math.max(dimensions.width, minWidth)
+        ),
+        "aria-valuemin": isHorizontalEdge ? minHeight : collapsible ? collapsedSize : minWidth,
+        "aria-valuemax": finiteOrUndefined(isHorizontalEdge ? maxHeight : maxWidth),
+        onPointerDown: initiateResize(direction),
+        onKeyDown: handleKeyDown(direction),
+      };
+    },
+    [dimensions.width, dimensions.height, minWidth, minHeight, maxWidth, maxHeight, isCollapsed, collapsible, collapsedSize, node, initiateResize, handleKeyDown]
+  );
+
+  /**
+   * Callback ref for the resized element. Required for bounds: 'parent'.
+   */
+  const ref = useCallback((el: HTMLElement | null) => {
+    setNode(el);
+  }, []);
+
+  /**
+   * Restore the persisted size (persistKey) once, after mount.
+   *
+   * Why not in the useState initializer? Storage only exists in the browser, so a
+   * server render shows initialWidth/initialHeight; reading storage during the first
+   * client render would hydrate a different size than the server sent. A layout
+   * effect swaps in the restored size before the first paint instead.
+   *
+   * Restored values are re-clamped because bounds may have changed since they were saved.
+   */
+  const restoredRef = useRef(false);
+  useIsomorphicLayoutEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    const restored = persistKey ? readPersistedDimensions(storage, persistKey, unit) : null;
+    if (!restored) return;
+
+    let next = restored;
+    if (unit !== "px") {
+      // Relative sizes can't be clamped yet - they're converted (and clamped) on measurement
+      unresolvedAxesRef.current = { width: true, height: true };
+    } else {
+      const limits = limitsRef.current;
+      const wasCollapsed = collapsible && restored.width <= collapsedSize;
+      next = {
+        width: wasCollapsed ? collapsedSize : clamp(restored.width, limits.minWidth, limits.maxWidth),
+        height: clamp(restored.height, limits.minHeight, limits.maxHeight ?? Number.POSITIVE_INFINITY),
+      };
+    }
+    dimsRef.current = next;
+    setInternalDims(next);
+    committedRef.current = next;
+  }, [persistKey, storage, unit, collapsible, collapsedSize]);
+
+  /**
+   * Track the container's size with ResizeObserver - the bounds container, or the
+   * element's parent when only a relative unit needs it.
+   *
+   * Why skip zero-size measurements? A container that is display:none (or not yet
+   * laid out) measures 0x0, which would clamp the element to its minimum.
+   */
+  useEffect(() => {
+    if (!bounds && unit === "px" && !hasResolvers) return;
+    const container = !bounds || bounds === "parent" ? node?.parentElement : bounds.current;
+    if (!container) return;
+
+    const measure = () => {
+      const next = measureContentBox(container);
+      if (next.width <= 0 && next.height <= 0) return;
+      setContainerSize((prev) =>
+        prev && Math.round(prev.width) === Math.round(next.width) && Math.round(prev.height) === Math.round(next.height)
+          ? prev
+          : next
+      );
+    };
+
+    measure();
+    const ro = new ResizeObserver(measure);
+    ro.observe(container);
+    return () => {
+      ro.disconnect();
+    };
+  }, [bounds, unit, hasResolvers, node]);
+
+  /**
+   * Re-evaluate constraint resolvers when the container is (re-)measured or the
+   * viewport resizes - the two inputs they're given.
+   */
+  useEffect(() => {
+    if (!hasResolvers) return;
+    refreshLimits();
+    window.addEventListener("resize", refreshLimits);
+    return () => {
+      window.removeEventListener("resize", refreshLimits);
+    };
+  }, [hasResolvers, refreshLimits]);
+
+  /**
+   * Keep relative sizes when the container resizes ('%' and 'fr' units).
+   *
+   * Why rescale the pixels? The unit value is the source of truth - a pane at 30%
+   * should still be at 30% after a window resize. Unconverted initial/persisted values
+   * are converted the first time their axis is measured. Controlled sizes need none of
+   * this: they're converted from the props on every render.
+   *
+   * Scale and limits are read through refs: the effect re-runs only for a new scale
+   * (or mode), and re-runs with an unchanged scale leave the size as it is.
+   */
+  const prevUnitScaleRef = useRef(unitScale);
+  useEffect(() => {
+    const prev = prevUnitScaleRef.current;
+    const scale = unitScaleRef.current;
+    prevUnitScaleRef.current = scale;
+    // Mid-drag the gesture owns the size; it's converted at the new scale on release
+    if (unit === "px" || isControlled || activeListenersRef.current.target || pinchRef.current.mode === "pinch") return;
+
+    const pending = unresolvedAxesRef.current;
+    const rescale = (px: number, axis: "width" | "height", lo: number, hi: number) => {
+      const next = scale[axis];
+      if (!next) return px; // Unmeasured axis - may still hold an unconverted unit value
+      if (pending[axis]) {
+        pending[axis] = false;
+        return clamp(px * next, lo, hi); // Still the unit value given on mount
+      }
+      const before = prev[axis];
+      return before === next ? px : clamp(before ? (px / before) * next : px, lo, hi);
+    };
+
+    const current = dimsRef.current;
+    const limits = limitsRef.current;
+    const next = {
+      width: isCollapsed ? current.width : rescale(current.width, "width", limits.minWidth, limits.maxWidth),
+      height: rescale(current.height, "height", limits.minHeight, limits.maxHeight ?? Number.POSITIVE_INFINITY),
+    };
+    if (next.width === current.width && next.height === current.height) return;
+    dimsRef.current = next;
+    setInternalDims(next);
+    committedRef.current = next;
+  }, [unitScale.width, unitScale.height, unit, isControlled, isCollapsed]);
+
+  /**
+   * Re-clamp when the limits tighten: the effective max shrinks below the current
+   * size, or a min grows above it.
+   *
+   * Why only changes, not the limits themselves? A size outside them can be
+   * legitimate before they ever change (collapsed, or an unconverted unit value),
+   * and the initial size is already clamped on mount.
+   *
+   * Why notify? The consumer's copy of the size (e.g. in a store) would otherwise
+   * keep a value the element can no longer have.
+   *
+   * Re-runs for other reasons (collapsing, a new onDimensionsChange) are no-ops:
+   * only a change against prevLimitsRef acts.
+   */
+  const prevLimitsRef = useRef({ minWidth, minHeight, maxWidth, maxHeight: maxHeight ?? Number.POSITIVE_INFINITY });
+  // Read through a ref so an inline callback doesn't re-run the effect every render
+  const onDimensionsChangeRef = useRef(onDimensionsChange);
+  onDimensionsChangeRef.current = onDimensionsChange;
+  useEffect(() => {
+    const prev = prevLimitsRef.current;
+    const hi = maxHeight ?? Number.POSITIVE_INFINITY;
+    prevLimitsRef.current = { minWidth, minHeight, maxWidth, maxHeight: hi };
+    const current = dimsRef.current;
+    const raiseWidth = minWidth > prev.minWidth && !isCollapsed && !unresolvedAxesRef.current.width;
+    const raiseHeight = minHeight > prev.minHeight && !unresolvedAxesRef.current.height;
+    const raisedWidth = raiseWidth ? Math.max(current.width, minWidth) : current.width;
+    const raisedHeight = raiseHeight ? Math.max(current.height, minHeight) : current.height;
+    const next = {
+      width: maxWidth < prev.maxWidth ? Math.min(raisedWidth, maxWidth) : raisedWidth,
+      height: hi < prev.maxHeight ? Math.min(raisedHeight, hi) : raisedHeight,
+    };
+    if (next.width === current.width && next.height === current.height) return;
+    setDims(next);
+    committedRef.current = next;
+    if (onDimensionsChangeRef.current) onDimensionsChangeRef.current(toUnit(next));
+  }, [minWidth, minHeight, maxWidth, maxHeight, isCollapsed, setDims, toUnit]);
+
+  /**
+   * Warn (in development) when switching between controlled and uncontrolled.
+   *
+   * Why warn? Like a controlled input, the hook can't tell which source should win
+   * after a switch - usually it means width/height went from a number to undefined.
+   */
+  useEffect(() => {
+    if (wasControlledRef.current === isControlled) return;
+    if (process.env.NODE_ENV !== "production") {
+      // eslint-disable-next-line no-console -- development-only misuse warning
+      console.error(
+        `useDragResize: a component is changing ${isControlled ? "an uncontrolled size to be controlled" : "a controlled size to be uncontrolled"}. ` +
+        "Decide between controlled (width/height + onChange) and uncontrolled (initialWidth/initialHeight) for the lifetime of the component."
+      );
+    }
+    wasControlledRef.current = isControlled;
+  }, [isControlled]);
+
   /**
    * Cleanup on unmount.
    *
@@ -443,14 +2697,42 @@ export function useDragResize({
   useEffect(() => {
     return () => {
       cleanup();
+      cleanupPinch();
+      haltFling();
+      if (animationRafRef.current !== null) cancelAnimationFrame(animationRafRef.current);
     };
-  }, [cleanup]);
+  }, [cleanup, cleanupPinch, haltFling]);
 
   return {
-    initiateResize,         // usage: onPointerDown={initiateResize('right')}
+    initiateResize,         // usage: onPointerDown={initiateResize('right')}, initiateResize('bottom-right') or initiateResize('inline-end')
     isResizing,
-    currentWidth: Math.max(dimensions.width, minWidth),
+    currentWidth: isCollapsed ? collapsedSize : Math.max(dimensions.width, minWidth),
     currentHeight: Math.max(dimensions.height, minHeight),
-    setDimensions: setDims, // direct override if needed
+    setDimensions: setDimensionsManually, // direct override if needed
+    animateTo, // usage: onClick={() => animateTo({ width: 320, height: 240 }, { easing: 'ease-in-out' })}
+    isAnimating,
+    endReason, // diagnostics: why the last drag ended ('pointerup', 'escape', 'blur', ...), null before any
+    previewDimensions: previewState?.dimensions ?? null, // preview only: size to draw the outline at
+    previewPosition: previewState?.position ?? null,
+    getHandleProps,         // usage: <div {...getHandleProps('right')} />
+    cancelResize,           // abort the active drag or its fling, reverting to the pre-drag size
+    undo,                   // history only
+    redo,
+    canUndo: historyState.canUndo,
+    canRedo: historyState.canRedo,
+    isCollapsed,            // collapsible only: width is at collapsedSize
+    initiateMove,           // usage: onPointerDown={initiateMove} on a title bar / drag surface
+    isMoving,
+    position,
+    setPosition,            // direct override if needed
+    ref,                    // attach to the resized element when using bounds: 'parent'
+    initiatePinch,          // pinch only: onPointerDown={initiatePinch} on the element
+    minWidth,               // effective min (resolvers evaluated)
+    minHeight,
+    maxWidth,               // effective max (static prop or resolver, and/or measured bounds)
+    maxHeight,
+    collapse,
+    expand,
+    toggle,
   };
 }
@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useDividerDrag } from "./use-divider-drag";
+
+/**
+ * Configuration for a single pane in a resize group.
+ */
+export type ResizeGroupPane = {
+  /** Initial size in pixels. Panes without one share the remaining space evenly. */
+  initialSize?: number;
+
+  /** Minimum size in pixels. Default: 0 */
+  minSize?: number;
+
+  /** Maximum size in pixels. Default: Infinity */
+  maxSize?: number;
+};
+
+/**
+ * Configuration parameters for the useResizeGroup hook.
+ */
+type Params = {
+  /** Pane configurations, in layout order. */
+  panes: ResizeGroupPane[];
+
+  /** Total size (px) the panes share along the group axis. Sizes always sum to this. */
+  totalSize: number;
+
+  /**
+   * Axis the panes are laid out along.
+   * - 'horizontal': panes side by side, dividers dragged along x (default)
+   * - 'vertical': panes stacked, dividers dragged along y
+   */
+  orientation?: "horizontal" | "vertical";
+
+  /**
+   * Whether to notify size changes during drag (live updates).
+   * - true: onSizesChange called during drag (throttled via RAF) + on release
+   * - false: onSizesChange called only on release
+   * Default: false
+   */
+  live?: boolean;
+
+  /** Callback fired when pane sizes change. */
+  onSizesChange?: (sizes: number[]) => void;
+};
+
+const paneMin = (pane: ResizeGroupPane | undefined) => pane?.minSize ?? 0;
+const paneMax = (pane: ResizeGroupPane | undefined) => pane?.maxSize ?? Number.POSITIVE_INFINITY;
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+/**
+ * Fit pane sizes to a total, honouring each pane's min/max.
+ *
+ * Sizes are scaled proportionally first (so a container resize keeps the layout's
+ * proportions), then clamped, and any remainder left by clamping is handed to
+ * panes that still have room. If the constraints can't be satisfied together
+ * (sum of mins > total), panes stay at their mins and the group overflows.
+ */
+export function fitToTotal(sizes: number[], panes: ResizeGroupPane[], total: number): number[] {
+  const current = sum(sizes);
+  const scale = current > 0 ? total / current : 0;
+  const next = sizes.map((size, i) =>
+    Math.min(paneMax(panes[i]), Math.max(paneMin(panes[i]), current > 0 ? size * scale : total / sizes.length))
+  );
+
+  // Distribute the remainder left by clamping, a few passes at most
+  for (let pass = 0; pass < next.length; pass++) {
+    const remainder = total - sum(next);
+    if (Math.abs(remainder) < 0.5) break;
+    const flexible = next
+      .map((_, i) => i)
+      .filter((i) => (remainder > 0 ? next[i] < paneMax(panes[i]) : next[i] > paneMin(panes[i])));
+    if (flexible.length === 0) break;
+    const share = remainder / flexible.length;
+    flexible.forEach((i) => {
+      next[i] = Math.min(paneMax(panes[i]), Math.max(paneMin(panes[i]), next[i] + share));
+    });
+  }
+
+  return next;
+}
+
+/**
+ * Compute initial pane sizes from the pane configs.
+ */
+export function getInitialSizes(panes: ResizeGroupPane[], total: number): number[] {
+  const fixed = sum(panes.map((p) => p.initialSize ?? 0));
+  const autoCount = panes.filter((p) => p.initialSize === undefined).length;
+  const autoSize = autoCount > 0 ? Math.max(0, total - fixed) / autoCount : 0;
+  return fitToTotal(panes.map((p) => p.initialSize ?? autoSize), panes, total);
+}
+
+/**
+ * Move the divider after pane `index` by `delta` pixels.
+ *
+ * Positive delta grows the panes before the divider and shrinks the ones after it.
+ * Why cascade? When the neighbour hits its minimum the drag shouldn't just stop -
+ * the remaining shrink is taken from the next pane along, nearest first (same for
+ * growth hitting a maximum). The applied amount is limited by what both sides can
+ * absorb, so the total is always preserved.
+ */
+export function moveDivider(start: number[], panes: ResizeGroupPane[], index: number, delta: number): number[] {
+  const next = [...start];
+  const before = Array.from({ length: index + 1 }, (_, k) => index - k); // index, index-1, ..., 0
+  const after = Array.from({ length: start.length - index - 1 }, (_, k) => index + 1 + k); // index+1, ..., n-1
+  const growing = delta > 0 ? before : after;
+  const shrinking = delta > 0 ? after : before;
+
+  const canShrink = sum(shrinking.map((i) => start[i] - paneMin(panes[i])));
+  const canGrow = sum(growing.map((i) => paneMax(panes[i]) - start[i]));
+  const amount = Math.max(0, Math.min(Math.abs(delta), canShrink, canGrow));
+
+  let toShrink = amount;
+  for (const i of shrinking) {
+    const take = Math.min(toShrink, start[i] - paneMin(panes[i]));
+    next[i] -= take;
+    toShrink -= take;
+  }
+
+  let toGrow = amount;
+  for (const i of growing) {
+    const give = Math.min(toGrow, paneMax(panes[i]) - start[i]);
+    next[i] += give;
+    toGrow -= give;
+  }
+
+  return next;
+}
+
+/**
+ * Coordinate several sibling panes that share a fixed total size.
+ *
+ * Where useDragResize sizes one element independently, this hook owns the sizes of
+ * a whole split layout: dragging a divider grows the pane on one side and shrinks
+ * its neighbour, so the panes always sum to `totalSize`.
+ *
+ * **Use cases:**
+ * - Multi-column IDE layouts (explorer | editor | preview)
+ * - Stacked editor/terminal splits
+ * - Dashboards with adjustable regions
+ *
+ * **Features:**
+ * - Per-pane min/max constraints
+ * - Overflow cascades to further panes when a neighbour hits its min/max
+ * - Proportional re-fit when totalSize changes (e.g. container resize) or panes are added/removed
+ * - Pointer capture, RAF-batched live updates, and memory-safe cleanup like useDragResize
+ *
+ * @param params - Configuration object
+ * @returns Object with:
+ *   - sizes: Current pane sizes in pixels (same order as panes)
+ *   - initiateResize: Function to call on divider's onPointerDown (divider i sits after pane i)
+ *   - isResizing: Boolean indicating if a divider is being dragged
+ *   - activeDivider: Index of the divider being dragged, or null
+ *   - setSizes: Manually set sizes (re-fitted to totalSize and constraints)
+ *
+ * @example
+ * Three-column layout
+ * ```tsx
+ * function IdeLayout() {
+ *   const [ref, rect] = useContainerRect<HTMLDivElement>();
+ *   const { sizes, initiateResize } = useResizeGroup({
+ *     totalSize: rect.width,
+ *     panes: [
+ *       { initialSize: 240, minSize: 160, maxSize: 400 },
+ *       { minSize: 300 },
+ *       { initialSize: 320, minSize: 200 },
+ *     ],
+ *   });
+ *
+ *   return (
+ *     <div ref={ref} style={{ display: 'flex' }}>
+ *       <aside style={{ width: sizes[0] }} />
+ *       <div onPointerDown={initiateResize(0)} className="divider" />
+ *       <main style={{ width: sizes[1] }} />
+ *       <div onPointerDown={initiateResize(1)} className="divider" />
+ *       <aside style={{ width: sizes[2] }} />
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useResizeGroup({
+  panes,
+  totalSize,
+  orientation = "horizontal",
+  live = false,
+  onSizesChange,
+}: Params) {
+  // Why a ref for panes? Pane configs are usually inline array literals, so their
+  // identity changes every render. Reading them from a ref keeps handlers stable.
+  const panesRef = useRef(panes);
+  panesRef.current = panes;
+  const measuredRef = useRef(totalSize > 0); // Whether sizes were ever laid out against a real total
+
+  const resize = useCallback(
+    (start: number[], dividerIndex: number, delta: number) => moveDivider(start, panesRef.current, dividerIndex, delta),
+    []
+  );
+
+  const {
+    sizes,
+    sizesRef,
+    setSizes: setSizesInternal,
+    initiateResize,
+    activeDivider,
+  } = useDividerDrag({
+    initialSizes: () => getInitialSizes(panes, totalSize),
+    resize,
+    axis: orientation === "horizontal" ? "x" : "y",
+    live,
+    onSizesChange,
+  });
+
+  /**
+   * Manually set sizes. Values are re-fitted to totalSize and pane constraints.
+   */
+  const setSizes = useCallback((next: number[]) => {
+    setSizesInternal(fitToTotal(next, panesRef.current, totalSize));
+  }, [setSizesInternal, totalSize]);
+
+  /**
+   * Re-fit sizes when the shared total or the number of panes changes (e.g. the
+   * container was resized, or a pane was added).
+   *
+   * Why proportional? A window resize should keep the layout's proportions rather
+   * than dumping all the change onto one pane.
+   *
+   * Why lay out from scratch on the first non-zero total? A measured container
+   * (e.g. useContainerRect) reports 0 until it mounts, so the sizes computed then
+   * carry no proportions - scaling them would lose the panes' initialSize.
+   */
+  useEffect(() => {
+    const prev = sizesRef.current;
+    const panes = panesRef.current;
+
+    if (!measuredRef.current) {
+      if (totalSize <= 0) return;
+      measuredRef.current = true;
+      setSizesInternal(getInitialSizes(panes, totalSize));
+      return;
+    }
+
+    if (prev.length === panes.length && Math.round(sum(prev)) === Math.round(totalSize)) return;
+    // Added panes start at their initialSize (or an even share); removed ones drop out
+    const resized = panes.map((pane, i) => prev[i] ?? pane.initialSize ?? totalSize / panes.length);
+    setSizesInternal(fitToTotal(resized, panes, totalSize));
+  }, [totalSize, panes.length, sizesRef, setSizesInternal]);
+
+  return {
+    sizes,
+    initiateResize, // usage: onPointerDown={initiateResize(0)} on the divider after pane 0
+    isResizing: activeDivider !== null,
+    activeDivider,
+    setSizes,
+  };
+}